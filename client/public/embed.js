@@ -0,0 +1,24 @@
+// スクラムフェスマップの埋め込み用スクリプト。
+// data-scrumfes-map 属性の付いた iframe の高さを、地図ページから届く高さに合わせる
+(function () {
+  if (window.scrumFestMapEmbed) return;
+  window.scrumFestMapEmbed = true;
+
+  // EMBED_RESIZE_MESSAGE（client/src/lib/embedOptions.ts）と合わせる
+  var RESIZE_MESSAGE = "scrumfes-map:resize";
+  var script = document.currentScript;
+  var origin = script ? new URL(script.src).origin : null;
+
+  window.addEventListener("message", function (event) {
+    if (origin && event.origin !== origin) return;
+    var data = event.data;
+    if (!data || data.type !== RESIZE_MESSAGE || typeof data.height !== "number") return;
+
+    var iframes = document.querySelectorAll("iframe[data-scrumfes-map]");
+    for (var i = 0; i < iframes.length; i++) {
+      if (iframes[i].contentWindow === event.source) {
+        iframes[i].style.height = Math.ceil(data.height) + "px";
+      }
+    }
+  });
+})();
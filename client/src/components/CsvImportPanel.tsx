@@ -0,0 +1,246 @@
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, FileSpreadsheet, AlertCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ja } from "date-fns/locale";
+import { getEventColumnLabel } from "@/lib/eventColumns";
+import { CSV_ENCODING_ERROR_MESSAGE } from "@/lib/eventCsv";
+
+type ImportStatus = "new" | "changed" | "unchanged";
+
+interface CsvImportPlanItem {
+  line: number;
+  status: ImportStatus;
+  eventId: number | null;
+  event: {
+    name: string;
+    prefecture: string;
+    date: string;
+  };
+  changedColumns: string[];
+}
+
+interface CsvImportPlan {
+  items: CsvImportPlanItem[];
+  errors: Array<{ section: string; line: number; message: string }>;
+  summary: Record<ImportStatus, number>;
+}
+
+const statusLabels: Record<ImportStatus, string> = {
+  new: "新規",
+  changed: "変更あり",
+  unchanged: "変更なし",
+};
+
+async function postCsv<T>(url: string, csv: string): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ csv }),
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.details && typeof errorData.details === "string"
+      ? `${errorData.error}: ${errorData.details}`
+      : errorData.error || "インポートに失敗しました");
+  }
+
+  return response.json();
+}
+
+// UTF-8 で読めなければ、Excel の既定の保存形式（Shift_JIS）として読み直す
+async function readCsvFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  for (const encoding of ["utf-8", "shift_jis"]) {
+    try {
+      return new TextDecoder(encoding, { fatal: true }).decode(buffer);
+    } catch {
+      // 次の文字コードで読み直す
+    }
+  }
+  throw new Error(CSV_ENCODING_ERROR_MESSAGE);
+}
+
+export default function CsvImportPanel() {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [csv, setCsv] = React.useState("");
+  const [fileName, setFileName] = React.useState<string | null>(null);
+  const [plan, setPlan] = React.useState<CsvImportPlan | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const previewMutation = useMutation({
+    mutationFn: (content: string) =>
+      postCsv<CsvImportPlan>("/api/admin/events/import/csv/preview", content),
+    onSuccess: setPlan,
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "確認エラー",
+        description: error instanceof Error ? error.message : "インポート内容の確認に失敗しました。",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () =>
+      postCsv<{ created: number; updated: number; unchanged: number }>(
+        "/api/admin/events/import/csv",
+        csv
+      ),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["events"] });
+      queryClient.invalidateQueries({ queryKey: ["admin", "events"] });
+      toast({
+        title: "インポート完了",
+        description: `新規 ${result.created}件、更新 ${result.updated}件（変更なし ${result.unchanged}件）`,
+      });
+      setPlan(null);
+      setCsv("");
+      setFileName(null);
+      setIsOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "インポートエラー",
+        description: error instanceof Error ? error.message : "イベントのインポートに失敗しました。",
+      });
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    let content: string;
+    try {
+      content = await readCsvFile(file);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "読み込みエラー",
+        description: error instanceof Error ? error.message : "CSVファイルを読み込めませんでした。",
+      });
+      return;
+    }
+    setCsv(content);
+    setFileName(file.name);
+    setPlan(null);
+    previewMutation.mutate(content);
+  };
+
+  const isBusy = previewMutation.isPending || importMutation.isPending;
+  const hasChanges = !!plan && plan.summary.new + plan.summary.changed > 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          CSVからインポート
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>CSVからインポート</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 flex-1 overflow-hidden flex flex-col">
+          <p className="text-sm text-muted-foreground">
+            「CSVでエクスポート」と同じ列（name, prefecture, date は必須）のファイルを選択してください。
+            id が一致するイベント、または名前と開催日が一致するイベントは更新されます。
+          </p>
+
+          <div className="flex items-center gap-2">
+            <Input type="file" accept=".csv,text/csv" onChange={handleFileChange} disabled={isBusy} />
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={isBusy || !hasChanges || (plan?.errors.length ?? 0) > 0}
+            >
+              {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              インポートを実行
+            </Button>
+          </div>
+
+          {previewMutation.isPending && (
+            <div className="flex justify-center p-4">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          )}
+
+          {plan && (
+            <ScrollArea className="flex-1 rounded-md border p-4">
+              <div className="space-y-4">
+                <p className="text-sm">
+                  {fileName && <span className="font-medium">{fileName}: </span>}
+                  新規 {plan.summary.new}件 / 変更あり {plan.summary.changed}件 / 変更なし {plan.summary.unchanged}件
+                </p>
+
+                {plan.errors.map((error) => (
+                  <div key={`${error.line}-${error.section}`} className="flex items-start gap-2 text-sm text-destructive">
+                    <AlertCircle className="h-4 w-4 mt-0.5" />
+                    <span>{error.line}行目「{error.section}」: {error.message}</span>
+                  </div>
+                ))}
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>行</TableHead>
+                      <TableHead>状態</TableHead>
+                      <TableHead>イベント名</TableHead>
+                      <TableHead>開催日</TableHead>
+                      <TableHead>変更項目</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.items.map((item) => (
+                      <TableRow key={item.line}>
+                        <TableCell>{item.line}</TableCell>
+                        <TableCell>
+                          <Badge variant={item.status === "unchanged" ? "secondary" : "default"}>
+                            {statusLabels[item.status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{item.event.name}</TableCell>
+                        <TableCell>
+                          {format(new Date(item.event.date), "yyyy年M月d日", { locale: ja })}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {item.changedColumns.map(getEventColumnLabel).join(", ")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </ScrollArea>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useEventSeries } from "@/hooks/use-event-series";
+import { Code } from "lucide-react";
+import { regions, type Region } from "@/lib/eventRegions";
+import {
+  buildEmbedSnippet,
+  clampEmbedHeight,
+  DEFAULT_EMBED_OPTIONS,
+  type EmbedOptions,
+  type EmbedPeriod,
+  type EmbedTheme,
+} from "@/lib/embedOptions";
+
+const periodLabels: Record<EmbedPeriod, string> = {
+  upcoming: "これから",
+  past: "これまで",
+  all: "すべて",
+};
+
+const themeLabels: Record<EmbedTheme, string> = {
+  light: "ライト",
+  dark: "ダーク",
+};
+
+interface EmbedSnippetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// 各イベントのサイトに地図を埋め込むための HTML を作るダイアログ
+export function EmbedSnippetDialog({ open, onOpenChange }: EmbedSnippetDialogProps) {
+  const { toast } = useToast();
+  const { data: seriesList = [] } = useEventSeries();
+  const [options, setOptions] = useState<EmbedOptions>(DEFAULT_EMBED_OPTIONS);
+  const [heightInput, setHeightInput] = useState(String(DEFAULT_EMBED_OPTIONS.height));
+  const snippet = buildEmbedSnippet(window.location.origin, options);
+
+  const updateOptions = (changes: Partial<EmbedOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      toast({
+        title: "コピーしました",
+        description: "埋め込みたいページの HTML に貼り付けてください。",
+      });
+    } catch (error) {
+      console.error("Copy error:", error);
+      toast({
+        variant: "destructive",
+        title: "エラー",
+        description: "コピーできませんでした。コードを選択してコピーしてください。",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Code className="h-4 w-4 mr-2" />
+          地図を埋め込む
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>地図を埋め込む</DialogTitle>
+          <DialogDescription>
+            表示する内容を選んで、下のコードを埋め込みたいページに貼り付けてください。
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>表示期間</Label>
+            <Select
+              value={options.period}
+              onValueChange={(value) => updateOptions({ period: value as EmbedPeriod })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(periodLabels) as EmbedPeriod[]).map((period) => (
+                  <SelectItem key={period} value={period}>
+                    {periodLabels[period]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>地方</Label>
+            <Select
+              value={options.region ?? "all"}
+              onValueChange={(value) => updateOptions({ region: value === "all" ? null : value as Region })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">全国</SelectItem>
+                {regions.map((region) => (
+                  <SelectItem key={region} value={region}>
+                    {region}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>強調するシリーズ</Label>
+            <Select
+              value={options.seriesId ? String(options.seriesId) : "none"}
+              onValueChange={(value) => updateOptions({ seriesId: value === "none" ? null : Number(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">なし</SelectItem>
+                {seriesList.map((series) => (
+                  <SelectItem key={series.id} value={String(series.id)}>
+                    {series.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>テーマ</Label>
+            <Select
+              value={options.theme}
+              onValueChange={(value) => updateOptions({ theme: value as EmbedTheme })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(themeLabels) as EmbedTheme[]).map((theme) => (
+                  <SelectItem key={theme} value={theme}>
+                    {themeLabels[theme]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="embed-height">地図の高さ（px）</Label>
+            <Input
+              id="embed-height"
+              type="number"
+              value={heightInput}
+              onChange={(e) => setHeightInput(e.target.value)}
+              // 入力途中の値で範囲外に丸めないよう、フォーカスが外れたときに反映する
+              onBlur={() => {
+                const height = Number(heightInput);
+                const next = Number.isFinite(height) && heightInput !== "" ? clampEmbedHeight(height) : options.height;
+                setHeightInput(String(next));
+                updateOptions({ height: next });
+              }}
+            />
+          </div>
+        </div>
+        <Textarea
+          readOnly
+          value={snippet}
+          rows={4}
+          className="font-mono text-xs"
+          onFocus={(e) => e.target.select()}
+          aria-label="埋め込みコード"
+        />
+        <div className="flex justify-end">
+          <Button onClick={handleCopy}>コピー</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
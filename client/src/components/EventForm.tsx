@@ -2,7 +2,12 @@ import { useForm } from "react-hook-form";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertEventSchema } from "@db/schema";
+import { insertEventSchema, attendanceModes } from "@db/schema";
+import type { AttendanceMode } from "@db/schema";
+import { attendanceModeLabels } from "@/lib/eventVenue";
+import { useEventSeries } from "@/hooks/use-event-series";
+import { useTags } from "@/hooks/use-tags";
+import { TagSelector } from "@/components/TagSelector";
 import {
   Form,
   FormControl,
@@ -12,6 +17,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 // 日付入力用のインポートを削除
 import { format } from "date-fns";
@@ -30,10 +36,16 @@ interface EventFormProps {
     name: string;
     prefecture: string;
     date: Date;
+    endDate?: Date | null;
     website?: string;
     description?: string;
     youtubePlaylist?: string;
     coordinates?: string;
+    venueName?: string;
+    venueAddress?: string;
+    attendanceMode?: AttendanceMode;
+    seriesId?: number | null;
+    tagIds?: number[];
   };
   onSubmit: (data: any) => Promise<void>;
 }
@@ -56,12 +68,22 @@ export function EventForm({ defaultValues, onSubmit }: EventFormProps) {
       name: "",
       prefecture: "",
       date: roundToNearest15Min(new Date()),
+      endDate: null,
       website: "",
       description: "",
       youtubePlaylist: "",
       coordinates: "",
+      venueName: "",
+      venueAddress: "",
+      attendanceMode: "onsite" as AttendanceMode,
+      seriesId: null as number | null,
     },
   });
+  const { data: seriesList = [] } = useEventSeries();
+  const { data: tagList = [] } = useTags();
+  // tagIds はイベントのスキーマに含まれないため、フォームとは別に保持する
+  const [tagIds, setTagIds] = useState<number[]>(defaultValues?.tagIds ?? []);
+  const isOnlineOnly = form.watch("attendanceMode") === "online";
 
   const onSubmitHandler = async (values: any) => {
     try {
@@ -69,10 +91,15 @@ export function EventForm({ defaultValues, onSubmit }: EventFormProps) {
       const data = {
         ...values,
         coordinates: coordinates || null,
-        date: values.date instanceof Date ? values.date : new Date(values.date)
+        venueName: values.venueName?.trim() || null,
+        venueAddress: values.venueAddress?.trim() || null,
+        tagIds,
+        date: values.date instanceof Date ? values.date : new Date(values.date),
+        endDate: values.endDate ? new Date(values.endDate) : null
       };
       await onSubmit(data);
       form.reset();
+      setTagIds(defaultValues?.tagIds ?? []);
       toast({
         title: "成功",
         description: "イベントを保存しました。"
@@ -107,12 +134,68 @@ export function EventForm({ defaultValues, onSubmit }: EventFormProps) {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="seriesId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base font-semibold">シリーズ（任意）</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === "none" ? null : Number(value))}
+                    defaultValue={field.value ? String(field.value) : "none"}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">シリーズなし</SelectItem>
+                      {seriesList.map((series) => (
+                        <SelectItem key={series.id} value={String(series.id)}>
+                          {series.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="attendanceMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base font-semibold">開催形式</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {attendanceModes.map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {attendanceModeLabels[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="prefecture"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel className="text-base font-semibold">開催都道府県</FormLabel>
+                  <FormLabel className="text-base font-semibold">
+                    開催都道府県{isOnlineOnly && "（オンラインのみの場合は任意）"}
+                  </FormLabel>
                   <Select onValueChange={field.onChange} defaultValue={field.value}>
                     <FormControl>
                       <SelectTrigger>
@@ -132,6 +215,34 @@ export function EventForm({ defaultValues, onSubmit }: EventFormProps) {
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="venueName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base font-semibold">会場名（任意）</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value || ""} placeholder="NINNO3" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="venueAddress"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-base font-semibold">会場住所（任意）</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value || ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="date"
@@ -172,6 +283,46 @@ export function EventForm({ defaultValues, onSubmit }: EventFormProps) {
               }}
             />
 
+            <FormField
+              control={form.control}
+              name="endDate"
+              render={({ field }) => {
+                const [inputValue, setInputValue] = useState(
+                  field.value ? format(field.value, "yyyyMMdd") : ""
+                );
+
+                return (
+                  <FormItem>
+                    <FormLabel className="text-base font-semibold">終了日 (YYYYMMDD・複数日開催の場合)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="20250102"
+                        value={inputValue}
+                        onChange={(e) => {
+                          const value = e.target.value.replace(/\D/g, '').slice(0, 8);
+                          setInputValue(value);
+
+                          if (value.length === 8) {
+                            const year = parseInt(value.substring(0, 4));
+                            const month = parseInt(value.substring(4, 6)) - 1;
+                            const day = parseInt(value.substring(6, 8));
+                            const date = new Date(year, month, day);
+
+                            if (!isNaN(date.getTime()) && date.getMonth() === month) {
+                              field.onChange(date);
+                            }
+                          } else {
+                            field.onChange(null);
+                          }
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                );
+              }}
+            />
+
             <FormField
               control={form.control}
               name="website"
@@ -209,6 +360,13 @@ export function EventForm({ defaultValues, onSubmit }: EventFormProps) {
               )}
             />
 
+            {tagList.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-base font-semibold">タグ（任意・複数選択可）</Label>
+                <TagSelector tags={tagList} selectedIds={tagIds} onChange={setTagIds} />
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="description"
@@ -0,0 +1,208 @@
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Upload, AlertCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { ja } from "date-fns/locale";
+
+type ImportStatus = "new" | "changed" | "unchanged";
+
+interface ImportPlanItem {
+  status: ImportStatus;
+  eventId: number | null;
+  event: {
+    name: string;
+    prefecture: string;
+    date: string;
+  };
+  changedColumns: string[];
+}
+
+interface ImportPlan {
+  items: ImportPlanItem[];
+  errors: Array<{ section: string; line: number; message: string }>;
+  summary: Record<ImportStatus, number>;
+}
+
+const statusLabels: Record<ImportStatus, string> = {
+  new: "新規",
+  changed: "変更あり",
+  unchanged: "変更なし",
+};
+
+async function postImport<T>(url: string, markdown: string): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ markdown }),
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.details && typeof errorData.details === "string"
+      ? `${errorData.error}: ${errorData.details}`
+      : errorData.error || "インポートに失敗しました");
+  }
+
+  return response.json();
+}
+
+export default function EventImportPanel() {
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [markdown, setMarkdown] = React.useState("");
+  const [plan, setPlan] = React.useState<ImportPlan | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const previewMutation = useMutation({
+    mutationFn: () => postImport<ImportPlan>("/api/admin/events/import/preview", markdown),
+    onSuccess: setPlan,
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "確認エラー",
+        description: error instanceof Error ? error.message : "インポート内容の確認に失敗しました。",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () =>
+      postImport<{ created: number; updated: number; unchanged: number }>(
+        "/api/admin/events/import",
+        markdown
+      ),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["events"] });
+      queryClient.invalidateQueries({ queryKey: ["admin", "events"] });
+      toast({
+        title: "インポート完了",
+        description: `新規 ${result.created}件、更新 ${result.updated}件（変更なし ${result.unchanged}件）`,
+      });
+      setPlan(null);
+      setIsOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "インポートエラー",
+        description: error instanceof Error ? error.message : "イベントのインポートに失敗しました。",
+      });
+    },
+  });
+
+  const isBusy = previewMutation.isPending || importMutation.isPending;
+  const hasChanges = !!plan && plan.summary.new + plan.summary.changed > 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          マークダウンからインポート
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>マークダウンからインポート</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 flex-1 overflow-hidden flex flex-col">
+          <Textarea
+            className="min-h-[120px] font-mono text-sm"
+            placeholder="all-events.md の内容を貼り付けてください。空のまま確認すると GitHub で公開中のファイルを読み込みます。"
+            value={markdown}
+            onChange={(e) => {
+              setMarkdown(e.target.value);
+              setPlan(null);
+            }}
+          />
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={isBusy}
+            >
+              {previewMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {markdown.trim() ? "内容を確認" : "GitHubから読み込んで確認"}
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={isBusy || !hasChanges || (plan?.errors.length ?? 0) > 0}
+            >
+              {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              インポートを実行
+            </Button>
+          </div>
+
+          {plan && (
+            <ScrollArea className="flex-1 rounded-md border p-4">
+              <div className="space-y-4">
+                <p className="text-sm">
+                  新規 {plan.summary.new}件 / 変更あり {plan.summary.changed}件 / 変更なし {plan.summary.unchanged}件
+                </p>
+
+                {plan.errors.map((error) => (
+                  <div key={`${error.line}-${error.section}`} className="flex items-start gap-2 text-sm text-destructive">
+                    <AlertCircle className="h-4 w-4 mt-0.5" />
+                    <span>{error.line}行目「{error.section}」: {error.message}</span>
+                  </div>
+                ))}
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>状態</TableHead>
+                      <TableHead>イベント名</TableHead>
+                      <TableHead>開催日</TableHead>
+                      <TableHead>変更項目</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.items.map((item, index) => (
+                      <TableRow key={`${item.eventId ?? "new"}-${index}`}>
+                        <TableCell>
+                          <Badge variant={item.status === "unchanged" ? "secondary" : "default"}>
+                            {statusLabels[item.status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{item.event.name}</TableCell>
+                        <TableCell>
+                          {format(new Date(item.event.date), "yyyy年M月d日", { locale: ja })}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {item.changedColumns.join(", ")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </ScrollArea>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
-import { format } from "date-fns";
-import { ja } from "date-fns/locale";
+import { Link } from "wouter";
 import { cn } from "@/lib/utils";
-import type { Event } from "@db/schema";
+import { formatEventPeriod } from "@/lib/eventDates";
+import type { Event, Tag } from "@db/schema";
 import {
   Card,
   CardContent,
@@ -10,14 +10,18 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ExternalLink, Calendar } from "lucide-react";
+import { ExternalLink, Calendar, CalendarPlus, MapPin, History } from "lucide-react";
+import { formatEventPlace, formatEventVenue } from "@/lib/eventVenue";
+import { Badge } from "@/components/ui/badge";
 
 interface EventListProps {
-  events: Event[];
+  events: (Event & { tags?: Tag[] })[];
   selectedEvent?: Event | null;
+  // 検索に一致したイベントの ID（強調表示する）
+  highlightedEventIds?: Set<number>;
 }
 
-export function EventList({ events, selectedEvent }: EventListProps) {
+export function EventList({ events, selectedEvent, highlightedEventIds }: EventListProps) {
   // イベント履歴の場合は並び替えを行わず、そのままの順序を維持
   // それ以外の場合（都道府県別表示など）は日付でソート
   const sortedEvents = selectedEvent
@@ -40,16 +44,30 @@ export function EventList({ events, selectedEvent }: EventListProps) {
         <Card 
           key={event.id}
           className={cn(
-            selectedEvent?.id === event.id && "border-primary"
+            selectedEvent?.id === event.id && "border-primary",
+            highlightedEventIds?.has(event.id) && "ring-2 ring-yellow-400"
           )}>
           <CardHeader>
-            <CardTitle>{event.name}</CardTitle>
+            <CardTitle>
+              <Link href={`/events/${event.id}`} className="hover:underline">
+                {event.name}
+              </Link>
+            </CardTitle>
             <CardDescription className="flex items-center gap-2">
               <Calendar className="h-4 w-4" />
-              {format(new Date(event.date), "yyyy年M月d日(E)", {
-                locale: ja,
-              })}
+              {formatEventPeriod(event)}
             </CardDescription>
+            <CardDescription className="flex items-center gap-2">
+              <MapPin className="h-4 w-4" />
+              {[formatEventPlace(event), formatEventVenue(event)].filter(Boolean).join(" / ")}
+            </CardDescription>
+            {event.tags && event.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 pt-1">
+                {event.tags.map((tag) => (
+                  <Badge key={tag.id} variant="secondary">{tag.name}</Badge>
+                ))}
+              </div>
+            )}
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -60,7 +78,7 @@ export function EventList({ events, selectedEvent }: EventListProps) {
                   </p>
                 )}
               </div>
-              <div className="flex gap-2">
+              <div className="flex flex-wrap gap-2">
                 {event.website && (
                   <Button
                     variant="outline"
@@ -81,6 +99,28 @@ export function EventList({ events, selectedEvent }: EventListProps) {
                     録画を見る
                   </Button>
                 )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    window.location.href = `/api/events/${event.id}/calendar.ics`;
+                  }}
+                >
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  カレンダーに追加
+                </Button>
+                {event.seriesId && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      window.location.href = `/series/${event.seriesId}`;
+                    }}
+                  >
+                    <History className="h-4 w-4 mr-2" />
+                    シリーズの歴史
+                  </Button>
+                )}
               </div>
             </div>
           </CardContent>
@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useState } from "react";
+import { addMonths, format, subDays } from "date-fns";
+import type { Event } from "@db/schema";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Pause, Play, X } from "lucide-react";
+import {
+  getTimelineBounds,
+  getYearlyTimelineFrames,
+  isEventInTimelineRange,
+  toTimelineIndexes,
+  toTimelineRange,
+  type TimelineRange,
+} from "@/lib/eventTimeline";
+
+const PLAY_INTERVAL_MS = 1500;
+
+interface EventTimelineProps {
+  events: Event[];
+  range: TimelineRange | null;
+  onRangeChange: (range: TimelineRange | null) => void;
+}
+
+// 地図の下に表示する期間スライダー。再生ボタンで1年ずつ期間を延ばしていく
+export function EventTimeline({ events, range, onRangeChange }: EventTimelineProps) {
+  const bounds = useMemo(() => getTimelineBounds(events), [events]);
+  const [playFrame, setPlayFrame] = useState<number | null>(null);
+  const frames = useMemo(() => bounds ? getYearlyTimelineFrames(bounds) : [], [bounds]);
+
+  useEffect(() => {
+    if (playFrame === null) return;
+    if (playFrame >= frames.length) {
+      setPlayFrame(null);
+      return;
+    }
+
+    onRangeChange(frames[playFrame]);
+    const timer = setTimeout(() => setPlayFrame(frame => frame === null ? null : frame + 1), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playFrame, frames]);
+
+  if (!bounds) return null;
+
+  const indexes = range ? toTimelineIndexes(bounds, range) : [0, bounds.monthCount - 1];
+  const displayed = range ?? toTimelineRange(bounds, indexes);
+  const eventCount = events.filter(event => isEventInTimelineRange(event, displayed)).length;
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPlayFrame(playFrame === null ? 0 : null)}
+            aria-label={playFrame === null ? "年ごとに再生" : "一時停止"}
+          >
+            {playFrame === null ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+          </Button>
+          <span className="text-sm font-medium">
+            {format(displayed.from, "yyyy年M月")}〜{format(subDays(displayed.to, 1), "yyyy年M月")}
+          </span>
+          <span className="text-sm text-muted-foreground">{eventCount}件</span>
+        </div>
+        {range && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setPlayFrame(null);
+              onRangeChange(null);
+            }}
+          >
+            <X className="h-4 w-4 mr-1" />
+            期間指定を解除
+          </Button>
+        )}
+      </div>
+      <Slider
+        min={0}
+        max={bounds.monthCount - 1}
+        step={1}
+        minStepsBetweenThumbs={0}
+        value={indexes}
+        onValueChange={(value) => {
+          setPlayFrame(null);
+          onRangeChange(toTimelineRange(bounds, value));
+        }}
+        aria-label="表示する期間"
+      />
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{format(bounds.start, "yyyy年M月")}</span>
+        <span>{format(addMonths(bounds.start, bounds.monthCount - 1), "yyyy年M月")}</span>
+      </div>
+    </Card>
+  );
+}
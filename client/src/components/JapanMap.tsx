@@ -1,14 +1,46 @@
-import { useState, useMemo, FC, PropsWithChildren, useEffect } from "react";
-import { MapContainer, TileLayer, GeoJSON, Marker, Popup } from "react-leaflet";
-import type { Layer } from "leaflet";
+import { useState, useMemo, FC, PropsWithChildren, ReactNode, useEffect } from "react";
+import { MapContainer, TileLayer, GeoJSON, Marker, Popup, useMap, useMapEvents } from "react-leaflet";
+import type { Layer, PathOptions } from "leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import { Card } from "@/components/ui/card";
 import MarkerClusterGroup from "react-leaflet-markercluster";
 import "react-leaflet-markercluster/dist/styles.min.css";
-import { prefectures, prefectureCoordinates } from "@/lib/prefectures";
-import { japanGeoData } from "@/lib/japanGeoData";
+import { prefectures } from "@/lib/prefectures";
+import { getBoundaryLevel } from "@/lib/prefectureBoundaries";
+import { usePrefectureBoundaries } from "@/hooks/use-prefecture-boundaries";
+import {
+  computePrefectureStats,
+  getStatsColor,
+  getStatsLegend,
+  statsMetricLabels,
+  statsMetrics,
+  type PrefectureStats,
+  type StatsLegendItem,
+  type StatsMetric,
+} from "@/lib/prefectureStats";
 import { EventList } from "./EventList";
+import { isUpcomingEvent, formatEventPeriod } from "@/lib/eventDates";
+import { resolveEventLocation } from "@/lib/eventLocation";
+import { findUpcomingNextEdition } from "@/lib/eventSeries";
+import { matchesEventSearch } from "@/lib/eventSearch";
+import { DEFAULT_MAP_CENTER, DEFAULT_MAP_ZOOM } from "@/lib/mapUrlState";
+import {
+  formatEventPlace,
+  formatEventVenue,
+  isOnlineOnlyEvent,
+  ONLINE_GROUP_ID,
+  ONLINE_GROUP_NAME,
+} from "@/lib/eventVenue";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Globe } from "lucide-react";
 import type { Event } from "@db/schema";
 
 interface MarkerClusterGroupProps {
@@ -23,64 +55,127 @@ const MarkerClusterGroupWithChildren: FC<PropsWithChildren<MarkerClusterGroupPro
 
 interface JapanMapProps {
   events: Event[];
+  // 表示期間で絞り込む前の全イベント（次回開催の案内に使う）
+  allEvents?: Event[];
   selectedPrefecture: string | null;
+  // ヘッダーの検索語。一致したピンと一覧の項目を強調表示する
+  searchQuery?: string;
+  selectedEventId?: number | null;
+  // 地図の表示位置（未指定なら日本全体）。変わると地図をその位置へ移動する
+  center?: [number, number] | null;
+  zoom?: number | null;
+  // 地図の直下に表示する要素（タイムラインなど）
+  mapFooter?: ReactNode;
   onPrefectureSelect: (prefectureId: string) => void;
+  onEventSelect: (eventId: number) => void;
+  onViewChange?: (center: [number, number], zoom: number) => void;
+  // 強調表示するシリーズ（検索語がないときのみ）
+  highlightedSeriesId?: number | null;
+  // 地図の高さ（既定は画面の70%）
+  height?: number | string;
+  // 埋め込み用に地図だけを表示し、リンクは別タブで開く
+  embedded?: boolean;
+  // 都道府県を統計（表示中のイベントから集計）で色分けする
+  statsMetric?: StatsMetric | null;
+  // 指定すると色分けの切り替えを表示する
+  onStatsMetricChange?: (metric: StatsMetric | null) => void;
 }
 
-export function JapanMap({ events, selectedPrefecture, onPrefectureSelect }: JapanMapProps) {
-  const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
+export function JapanMap({
+  events,
+  allEvents = events,
+  selectedPrefecture,
+  searchQuery = "",
+  selectedEventId = null,
+  center = null,
+  zoom = null,
+  mapFooter,
+  onPrefectureSelect,
+  onEventSelect,
+  onViewChange,
+  highlightedSeriesId = null,
+  height = "70vh",
+  embedded = false,
+  statsMetric = null,
+  onStatsMetricChange
+}: JapanMapProps) {
   const [eventHistory, setEventHistory] = useState<Event[]>([]);
 
-  // イベントを「前日まで」と「当日以降」に分類する関数
+  // イベントを「最終日が前日まで」と「最終日が当日以降」に分類する関数
   const categorizedEvents = useMemo(() => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
     return events.reduce((acc, event) => {
-      const eventDate = new Date(event.date);
-      eventDate.setHours(0, 0, 0, 0);
-      
-      if (eventDate < today) {
-        acc.past.push(event);
-      } else {
+      if (isUpcomingEvent(event)) {
         acc.upcoming.push(event);
+      } else {
+        acc.past.push(event);
       }
       
       return acc;
     }, { past: [] as Event[], upcoming: [] as Event[] });
   }, [events]);
 
-  // 初期表示時に当日以降の最初のイベントを自動選択
-  useEffect(() => {
-    if (!selectedEvent && events.length > 0 && categorizedEvents.upcoming.length > 0) {
-      const upcomingEvent = categorizedEvents.upcoming[0];
-      handleMarkerClick(upcomingEvent);
-      // 該当する都道府県を選択
-      const prefecture = prefectures.find(p => p.name === upcomingEvent.prefecture);
-      if (prefecture) {
-        onPrefectureSelect(prefecture.id);
-      }
-    }
-  }, [events, categorizedEvents.upcoming, selectedEvent]);
+  // 表示中のイベントに含まれなければ選択なしとして扱う
+  const selectedEvent = useMemo(
+    () => events.find(event => event.id === selectedEventId) ?? null,
+    [events, selectedEventId]
+  );
 
-  const handleMarkerClick = (event: Event) => {
-    setSelectedEvent(event);
+  // 選択したイベントを最近選択したイベントの先頭に追加する
+  useEffect(() => {
+    if (!selectedEvent) return;
     setEventHistory(prev => {
-      const filtered = prev.filter(e => e.id !== event.id);
-      return [event, ...filtered].slice(0, 3);
+      const filtered = prev.filter(e => e.id !== selectedEvent.id);
+      return [selectedEvent, ...filtered].slice(0, 3);
     });
-  };
+  }, [selectedEvent]);
+
+  // 検索語がなければ null（強調表示しない）
+  const searchMatches = useMemo(() => {
+    if (!searchQuery.trim()) return null;
+    return new Set(events.filter(event => matchesEventSearch(event, searchQuery)).map(event => event.id));
+  }, [events, searchQuery]);
+  const highlightedEventIds = searchMatches ?? undefined;
+
+  // 地図のピンは検索語がなければ指定されたシリーズのイベントを強調する
+  const markerMatches = useMemo(() => {
+    if (searchMatches) return searchMatches;
+    if (!highlightedSeriesId) return null;
+    return new Set(events.filter(event => event.seriesId === highlightedSeriesId).map(event => event.id));
+  }, [events, searchMatches, highlightedSeriesId]);
+  const linkTarget = embedded ? "_blank" : undefined;
+
+  const onlineEvents = useMemo(() => events.filter(isOnlineOnlyEvent), [events]);
 
   const prefectureEvents = useMemo(() => {
     if (!selectedPrefecture) return [];
+    if (selectedPrefecture === ONLINE_GROUP_ID) return onlineEvents;
     const prefecture = prefectures.find(p => p.id === selectedPrefecture);
     return events.filter(event => event.prefecture === prefecture?.name);
-  }, [events, selectedPrefecture]);
+  }, [events, onlineEvents, selectedPrefecture]);
+
+  const prefectureStats = useMemo(() => computePrefectureStats(events), [events]);
+  const statsLegend = useMemo(
+    () => statsMetric ? getStatsLegend(statsMetric, prefectureStats) : null,
+    [statsMetric, prefectureStats]
+  );
 
   const getFeatureStyle = (feature: any) => {
     const prefId = feature.properties.id;
     const prefecture = prefectures.find(p => p.id === prefId);
     const hasEvents = events.some(event => event.prefecture === prefecture?.name);
+    const stats = prefectureStats.get(prefId);
+
+    // 統計で色分けする場合は、選択中の都道府県を太い枠線で示す
+    if (statsMetric && statsLegend && stats) {
+      const isSelected = selectedPrefecture === prefId;
+      return {
+        fillColor: getStatsColor(stats[statsMetric], statsLegend),
+        weight: isSelected ? 3 : 1,
+        opacity: 1,
+        color: isSelected ? "hsl(222.2 47.4% 11.2%)" : "white",
+        fillOpacity: 0.8
+      };
+    }
     
     return {
       fillColor: selectedPrefecture === prefId 
@@ -98,137 +193,186 @@ export function JapanMap({ events, selectedPrefecture, onPrefectureSelect }: Jap
   const onEachFeature = (feature: any, layer: Layer) => {
     layer.on({
       click: () => {
-        const prefId = feature.properties.id;
-        onPrefectureSelect(prefId);
-        setSelectedEvent(null);
+        onPrefectureSelect(feature.properties.id);
       }
     });
   };
 
-  return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-      <div className="md:col-span-2">
-        <Card className="p-4">
-          <MapContainer
-            center={[36.5, 138]}
-            zoom={5}
-            style={{ height: "70vh", width: "100%" }}
-            zoomControl={true}
-          >
-            <TileLayer
-              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-            />
-            <GeoJSON
-              data={japanGeoData}
-              style={getFeatureStyle}
-              onEachFeature={onEachFeature}
-            />
-            <MarkerClusterGroupWithChildren
-              chunkedLoading
-              spiderfyOnMaxZoom
-              animate
-              maxClusterRadius={30}
+  const mapContent = (
+    <>
+      {(onStatsMetricChange || onlineEvents.length > 0) && (
+        <div className="flex flex-wrap items-center justify-end gap-2 mb-2">
+          {onStatsMetricChange && (
+            <Select
+              value={statsMetric ?? "none"}
+              onValueChange={(value) => onStatsMetricChange(value === "none" ? null : value as StatsMetric)}
             >
-              {events.map((event) => {
-                const prefecture = prefectures.find(p => p.name === event.prefecture);
-                if (!prefecture) return null;
-
-                // イベントの座標か都道府県のデフォルト座標を使用
-                let coordinates: [number, number];
-                if (event.coordinates && event.coordinates.trim() !== '') {
-                  try {
-                    console.log(`イベント「${event.name}」の座標処理:`, event.coordinates);
-                    const [lat, lng] = event.coordinates.split(',').map(coord => Number(coord.trim()));
-                    console.log('パース後の座標:', { lat, lng });
-                    if (!isNaN(lat) && !isNaN(lng)) {
-                      // Leafletは[latitude, longitude]の順序で座標を期待する
-                      coordinates = [lat, lng] as [number, number];
-                      console.log('有効な座標として設定:', coordinates);
-                      if (!coordinates[0] || !coordinates[1]) {
-                        console.log('座標が不完全なためデフォルト使用');
-                        coordinates = prefectureCoordinates[event.prefecture];
-                      }
-                    } else {
-                      console.log('座標が無効なためデフォルト使用');
-                      coordinates = prefectureCoordinates[event.prefecture];
-                    }
-                  } catch (error) {
-                    console.error('座標の解析エラー:', error, event.coordinates);
-                    coordinates = prefectureCoordinates[event.prefecture];
-                  }
-                } else {
-                  coordinates = prefectureCoordinates[event.prefecture];
-                }
-                if (!coordinates) return null;
-                
-                const isFutureEvent = new Date(event.date) > new Date();
-                
-                return (
-                  <Marker 
-                    key={event.id} 
-                    position={coordinates}
-                    eventHandlers={{
-                      click: () => handleMarkerClick(event)
-                    }}
-                    icon={L.divIcon({
-                      className: 'marker-container',
-                      html: `
-                        <div class="marker-pin-google ${isFutureEvent ? 'future-event' : 'past-event'}">
-                          <div class="marker-head"></div>
-                          <div class="marker-tail"></div>
-                        </div>
-                      `,
-                      iconSize: [30, 42],
-                      iconAnchor: [15, 42],
-                      popupAnchor: [0, -42]
-                    })}
-                  >
-                    <Popup>
-                      <div className="space-y-2">
-                        <h3 className="font-bold text-lg">{event.name}</h3>
-                        <p className="text-sm text-muted-foreground">
-                          {event.prefecture}
-                          {event.coordinates && (
-                            <span className="text-xs ml-1">
-                              ({event.coordinates.trim() === coordinates.join(', ') ? '都道府県座標' : 'ユーザー指定座標'})
-                            </span>
-                          )}
+              <SelectTrigger className="w-[220px] h-9" aria-label="都道府県の色分け">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">色分け: 開催の有無</SelectItem>
+                {statsMetrics.map((metric) => (
+                  <SelectItem key={metric} value={metric}>
+                    色分け: {statsMetricLabels[metric]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {onlineEvents.length > 0 && (
+            <Button
+              variant={selectedPrefecture === ONLINE_GROUP_ID ? "default" : "outline"}
+              size="sm"
+              onClick={() => onPrefectureSelect(ONLINE_GROUP_ID)}
+            >
+              <Globe className="h-4 w-4 mr-2" />
+              {ONLINE_GROUP_NAME}（{onlineEvents.length}件）
+            </Button>
+          )}
+        </div>
+      )}
+      <div className="relative">
+        <MapContainer
+          center={center ?? DEFAULT_MAP_CENTER}
+          zoom={zoom ?? DEFAULT_MAP_ZOOM}
+          style={{ height, width: "100%" }}
+          zoomControl={true}
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <SyncMapView center={center} zoom={zoom} onViewChange={onViewChange} />
+          <PrefectureLayer style={getFeatureStyle} onEachFeature={onEachFeature} />
+          <MarkerClusterGroupWithChildren
+            chunkedLoading
+            spiderfyOnMaxZoom
+            animate
+            maxClusterRadius={30}
+          >
+            {events.map((event) => {
+              // イベントの座標か都道府県のデフォルト座標を使用（オンラインのみのイベントはピンなし）
+              const location = resolveEventLocation(event);
+              if (!location) return null;
+              const coordinates: [number, number] = [location.lat, location.lng];
+              
+              const isFutureEvent = isUpcomingEvent(event);
+              const nextEdition = findUpcomingNextEdition(event, allEvents);
+              const searchClass = markerMatches
+                ? markerMatches.has(event.id) ? 'search-match' : 'search-unmatched'
+                : '';
+              
+              return (
+                <Marker 
+                  key={event.id} 
+                  position={coordinates}
+                  eventHandlers={{
+                    click: () => onEventSelect(event.id)
+                  }}
+                  icon={L.divIcon({
+                    className: 'marker-container',
+                    html: `
+                      <div class="marker-pin-google ${isFutureEvent ? 'future-event' : 'past-event'} ${searchClass}">
+                        <div class="marker-head"></div>
+                        <div class="marker-tail"></div>
+                      </div>
+                    `,
+                    iconSize: [30, 42],
+                    iconAnchor: [15, 42],
+                    popupAnchor: [0, -42]
+                  })}
+                >
+                  <Popup>
+                    <div className="space-y-2">
+                      <h3 className="font-bold text-lg">{event.name}</h3>
+                      <p className="text-sm text-muted-foreground">
+                        {formatEventPlace(event)}
+                        {event.coordinates && (
+                          <span className="text-xs ml-1">
+                            ({location.source === 'prefecture' ? '都道府県座標' : 'ユーザー指定座標'})
+                          </span>
+                        )}
+                      </p>
+                      {formatEventVenue(event) && (
+                        <p className="text-sm">会場: {formatEventVenue(event)}</p>
+                      )}
+                      <p className="text-sm">{formatEventPeriod(event, "yyyy/M/d")}</p>
+                      {event.description && (
+                        <p className="text-sm mt-2 popup-description">{event.description}</p>
+                      )}
+                      {nextEdition && (
+                        <p className="text-sm font-medium">
+                          次回: {nextEdition.name}（{formatEventPeriod(nextEdition, "yyyy/M/d")}）
                         </p>
-                        <p className="text-sm">{new Date(event.date).toLocaleDateString('ja-JP')}</p>
-                        {event.description && (
-                          <p className="text-sm mt-2 popup-description">{event.description}</p>
+                      )}
+                      <div className="flex gap-4 mt-2">
+                        {event.website && (
+                          <a
+                            href={event.website}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm text-blue-500 hover:text-blue-700"
+                          >
+                            イベントサイトへ
+                          </a>
+                        )}
+                        {event.youtubePlaylist && event.youtubePlaylist.trim() !== "" && (
+                          <a
+                            href={event.youtubePlaylist}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm text-blue-500 hover:text-blue-700"
+                          >
+                            録画を見る
+                          </a>
+                        )}
+                        <a
+                          href={`/api/events/${event.id}/calendar.ics`}
+                          className="text-sm text-blue-500 hover:text-blue-700"
+                        >
+                          カレンダーに追加
+                        </a>
+                        <a
+                          href={`/events/${event.id}`}
+                          target={linkTarget}
+                          className="text-sm text-blue-500 hover:text-blue-700"
+                        >
+                          詳細
+                        </a>
+                        {event.seriesId && (
+                          <a
+                            href={`/series/${event.seriesId}`}
+                            target={linkTarget}
+                            className="text-sm text-blue-500 hover:text-blue-700"
+                          >
+                            シリーズの歴史
+                          </a>
                         )}
-                        <div className="flex gap-4 mt-2">
-                          {event.website && (
-                            <a
-                              href={event.website}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-sm text-blue-500 hover:text-blue-700"
-                            >
-                              イベントサイトへ
-                            </a>
-                          )}
-                          {event.youtubePlaylist && event.youtubePlaylist.trim() !== "" && (
-                            <a
-                              href={event.youtubePlaylist}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-sm text-blue-500 hover:text-blue-700"
-                            >
-                              録画を見る
-                            </a>
-                          )}
-                        </div>
                       </div>
-                    </Popup>
-                  </Marker>
-                );
-              })}
-            </MarkerClusterGroupWithChildren>
-          </MapContainer>
-        </Card>
+                    </div>
+                  </Popup>
+                </Marker>
+              );
+            })}
+          </MarkerClusterGroupWithChildren>
+        </MapContainer>
+        {statsMetric && statsLegend && (
+          <StatsLegend title={statsMetricLabels[statsMetric]} items={statsLegend} />
+        )}
+      </div>
+    </>
+  );
+
+  if (embedded) {
+    return <div>{mapContent}</div>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="md:col-span-2">
+        <Card className="p-4">{mapContent}</Card>
+        {mapFooter && <div className="mt-4">{mapFooter}</div>}
       </div>
 
       <div className="space-y-4">
@@ -238,17 +382,26 @@ export function JapanMap({ events, selectedPrefecture, onPrefectureSelect }: Jap
             <EventList
               events={eventHistory}
               selectedEvent={selectedEvent}
+              highlightedEventIds={highlightedEventIds}
             />
           </>
         ) : selectedPrefecture ? (
           <>
-            <h2 className="text-xl font-semibold">{prefectures.find(p => p.id === selectedPrefecture)?.name}のイベント</h2>
+            <h2 className="text-xl font-semibold">
+              {selectedPrefecture === ONLINE_GROUP_ID
+                ? ONLINE_GROUP_NAME
+                : prefectures.find(p => p.id === selectedPrefecture)?.name}のイベント
+            </h2>
+            {statsMetric && prefectureStats.has(selectedPrefecture) && (
+              <PrefectureStatsSummary stats={prefectureStats.get(selectedPrefecture)!} />
+            )}
             {categorizedEvents.upcoming.length > 0 && (
               <>
                 <h3 className="text-lg font-medium mt-6 mb-2">これから</h3>
                 <EventList
                   events={prefectureEvents.filter(event => categorizedEvents.upcoming.includes(event))}
                   selectedEvent={null}
+                  highlightedEventIds={highlightedEventIds}
                 />
               </>
             )}
@@ -258,20 +411,119 @@ export function JapanMap({ events, selectedPrefecture, onPrefectureSelect }: Jap
                 <EventList
                   events={prefectureEvents.filter(event => categorizedEvents.past.includes(event))}
                   selectedEvent={null}
+                  highlightedEventIds={highlightedEventIds}
                 />
               </>
             )}
           </>
+        ) : searchMatches ? (
+          <>
+            <h2 className="text-xl font-semibold">検索結果（{searchMatches.size}件）</h2>
+            <EventList
+              events={events.filter(event => searchMatches.has(event.id))}
+              selectedEvent={null}
+            />
+          </>
         ) : (
           <>
             <h2 className="text-xl font-semibold">最近選択したイベント</h2>
             <EventList
               events={eventHistory}
               selectedEvent={selectedEvent}
+              highlightedEventIds={highlightedEventIds}
             />
           </>
         )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// 統計で色分けしているときの凡例（地図の左下に重ねて表示する）
+function StatsLegend({ title, items }: { title: string; items: StatsLegendItem[] }) {
+  return (
+    <div className="absolute bottom-6 left-2 z-[1000] rounded-md border bg-background/90 p-2 text-xs shadow-sm">
+      <p className="font-medium mb-1">{title}</p>
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li key={item.label} className="flex items-center gap-2">
+            <span className="inline-block h-3 w-4 rounded-sm border" style={{ backgroundColor: item.color }} />
+            {item.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// 選択した都道府県の集計（表示期間とタグの絞り込みを反映した値）
+function PrefectureStatsSummary({ stats }: { stats: PrefectureStats }) {
+  const elapsed = stats.yearsSinceLast === 0 ? "1年以内・予定あり" : `${stats.yearsSinceLast}年前`;
+
+  return (
+    <Card className="p-4 text-sm space-y-1">
+      <p>イベント数: {stats.eventCount}件</p>
+      <p>シリーズ数: {stats.seriesCount}</p>
+      <p>
+        最後の開催: {stats.lastEvent
+          ? `${formatEventPeriod(stats.lastEvent, "yyyy/M/d")}（${elapsed}）`
+          : "まだ開催されていません"}
+      </p>
+    </Card>
+  );
+}
+
+// 都道府県の境界。拡大率に合った簡略化レベルの TopoJSON を読み込んで表示する
+function PrefectureLayer({ style, onEachFeature }: {
+  style: (feature: any) => PathOptions;
+  onEachFeature: (feature: any, layer: Layer) => void;
+}) {
+  const map = useMap();
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  useMapEvents({
+    zoomend: () => setZoom(map.getZoom()),
+  });
+  const level = getBoundaryLevel(zoom);
+  const { data: boundaries, isPlaceholderData } = usePrefectureBoundaries(level);
+
+  if (!boundaries) return null;
+
+  // GeoJSON レイヤーは data の変更を反映しないため、境界データが変わったら作り直す
+  return (
+    <GeoJSON
+      key={isPlaceholderData ? "placeholder" : level}
+      data={boundaries}
+      style={style}
+      onEachFeature={onEachFeature}
+    />
+  );
+}
+
+// 指定された表示位置へ地図を移動し、利用者が動かした位置を親へ伝える
+function SyncMapView({ center, zoom, onViewChange }: {
+  center: [number, number] | null;
+  zoom: number | null;
+  onViewChange?: (center: [number, number], zoom: number) => void;
+}) {
+  const map = useMapEvents({
+    moveend: () => {
+      const current = map.getCenter();
+      onViewChange?.([current.lat, current.lng], map.getZoom());
+    },
+  });
+  const [lat, lng] = center ?? DEFAULT_MAP_CENTER;
+  const targetZoom = zoom ?? DEFAULT_MAP_ZOOM;
+
+  useEffect(() => {
+    const current = map.getCenter();
+    // URL には丸めた座標が入るため、わずかなずれは同じ位置とみなす
+    const isSameView = Math.abs(current.lat - lat) < 1e-3 &&
+      Math.abs(current.lng - lng) < 1e-3 &&
+      map.getZoom() === targetZoom;
+    if (!isSameView) {
+      map.flyTo([lat, lng], targetZoom);
+    }
+  }, [map, lat, lng, targetZoom]);
+
+  return null;
+}
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { EventSeries } from "@db/schema";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useEventSeries } from "@/hooks/use-event-series";
+import { prefectures } from "@/lib/constants";
+
+type SeriesInput = Pick<EventSeries, "name" | "website" | "homePrefecture">;
+
+const emptySeries: SeriesInput = {
+  name: "",
+  website: "",
+  homePrefecture: null,
+};
+
+async function saveSeries(series: SeriesInput & { id?: number }): Promise<EventSeries> {
+  const response = await fetch(
+    series.id ? `/api/admin/series/${series.id}` : "/api/admin/series",
+    {
+      method: series.id ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(series),
+      credentials: "include",
+    }
+  );
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.details || error.error || "シリーズの保存に失敗しました");
+  }
+  return response.json();
+}
+
+function SeriesRow({
+  series,
+  editionCount,
+  onSave,
+  onDelete,
+  isSaving,
+}: {
+  series: SeriesInput & { id?: number };
+  editionCount?: number;
+  onSave: (series: SeriesInput & { id?: number }) => void;
+  onDelete?: () => void;
+  isSaving: boolean;
+}) {
+  const [draft, setDraft] = useState(series);
+  const update = (values: Partial<SeriesInput>) => setDraft(prev => ({ ...prev, ...values }));
+
+  return (
+    <TableRow>
+      <TableCell>
+        <Input value={draft.name} placeholder="スクラムフェス大阪" onChange={(e) => update({ name: e.target.value })} />
+      </TableCell>
+      <TableCell>
+        <Input
+          type="url"
+          value={draft.website ?? ""}
+          onChange={(e) => update({ website: e.target.value })}
+        />
+      </TableCell>
+      <TableCell>
+        <Select
+          value={draft.homePrefecture ?? "none"}
+          onValueChange={(value) => update({ homePrefecture: value === "none" ? null : value })}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">未設定</SelectItem>
+            {prefectures.map((prefecture) => (
+              <SelectItem key={prefecture} value={prefecture}>
+                {prefecture}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell>
+        {draft.id ? (
+          <a href={`/series/${draft.id}`} className="text-sm text-blue-500 hover:text-blue-700">
+            {editionCount ?? 0}回
+          </a>
+        ) : (
+          "-"
+        )}
+      </TableCell>
+      <TableCell>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onSave(draft)} disabled={isSaving}>
+            {draft.id ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+          </Button>
+          {onDelete && (
+            <Button variant="destructive" size="sm" onClick={onDelete} disabled={isSaving}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export function SeriesSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newRowKey, setNewRowKey] = useState(0);
+
+  const { data: seriesList = [], isLoading } = useEventSeries();
+
+  const saveMutation = useMutation({
+    mutationFn: saveSeries,
+    onSuccess: (_, series) => {
+      queryClient.invalidateQueries({ queryKey: ["series"] });
+      if (!series.id) setNewRowKey(key => key + 1);
+      toast({
+        title: "保存完了",
+        description: "シリーズを保存しました。",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "エラー",
+        description: error instanceof Error ? error.message : "シリーズの保存に失敗しました。",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (seriesId: number) => {
+      const response = await fetch(`/api/admin/series/${seriesId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("シリーズの削除に失敗しました");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["series"] });
+      queryClient.invalidateQueries({ queryKey: ["events"] });
+      toast({
+        title: "削除完了",
+        description: "シリーズを削除しました。",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "エラー",
+        description: error instanceof Error ? error.message : "シリーズの削除に失敗しました。",
+      });
+    },
+  });
+
+  const isSaving = saveMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>イベントシリーズ</CardTitle>
+        <CardDescription>毎年開催されるイベントをシリーズとしてまとめます。各回はイベント編集画面でシリーズを選択してください</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>シリーズ名</TableHead>
+                <TableHead>Webサイト</TableHead>
+                <TableHead>本拠地</TableHead>
+                <TableHead>開催回数</TableHead>
+                <TableHead>操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {seriesList.map((series) => (
+                <SeriesRow
+                  key={`${series.id}-${String(series.updatedAt)}`}
+                  series={series}
+                  editionCount={series.editionCount}
+                  isSaving={isSaving}
+                  onSave={(draft) => saveMutation.mutate(draft)}
+                  onDelete={() => {
+                    if (confirm("このシリーズを削除してもよろしいですか？（各回のイベントは削除されません）")) {
+                      deleteMutation.mutate(series.id);
+                    }
+                  }}
+                />
+              ))}
+              <SeriesRow
+                key={`new-${newRowKey}`}
+                series={emptySeries}
+                isSaving={isSaving}
+                onSave={(draft) => saveMutation.mutate(draft)}
+              />
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,19 +8,82 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Loader2, Bug, AlertCircle } from "lucide-react";
+import { Loader2, Bug, AlertCircle, GitPullRequest, Check, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import type {
+  SyncLogEntry,
+  SyncMode,
+  SyncRun,
+  SyncRunStatus,
+  SyncTargetResult,
+} from "@db/schema";
 
-interface DebugLog {
-  timestamp: string;
-  type: 'info' | 'error';
-  title: string;
-  details: any;
+type SyncRunSummary = Omit<SyncRun, 'logs'> & { username: string | null };
+type SyncRunDetail = SyncRun & { username: string | null };
+
+interface SyncPreviewTarget {
+  targetId: number;
+  target: string;
+  format: string;
+  // 差分の比較先のブランチ（null はリポジトリの既定のブランチ）
+  comparedBranch: string | null;
+  isNewFile: boolean;
+  hasChanges: boolean;
+  commitMessage: string;
+  diff: string;
+}
+
+interface SyncPreview {
+  // 同期するときに送り返す（確認した後に内容が変わっていれば同期されない）
+  contentHash: string;
+  changeSummary: string | null;
+  targets: SyncPreviewTarget[];
+}
+
+const statusLabels: Record<SyncRunStatus, string> = {
+  running: '実行中',
+  succeeded: '成功',
+  partial: '一部失敗',
+  failed: '失敗',
+  unchanged: '変更なし',
+};
+
+const statusVariants: Record<SyncRunStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  running: 'outline',
+  succeeded: 'default',
+  partial: 'secondary',
+  failed: 'destructive',
+  unchanged: 'secondary',
+};
+
+async function fetchJson<T>(url: string, fallbackMessage: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: {
+      'Accept': 'application/json',
+    },
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || errorData.message || errorData.details || fallbackMessage);
+  }
+
+  return response.json();
+}
+
+function formatSyncResults(results: SyncTargetResult[] = []): string {
+  return results
+    .map(result => result.success
+      ? `✓ ${result.target}${result.pullRequestUrl ? ` (${result.pullRequestUrl})` : ""}${result.unchanged ? " (変更なし)" : ""}`
+      : `✗ ${result.target}: ${result.error}`)
+    .join("\n");
 }
 
 type LogEntryProps = {
-  log: DebugLog;
+  log: SyncLogEntry;
 };
 
 const LogEntry = React.memo(function LogEntry({ log }: LogEntryProps) {
@@ -48,25 +111,160 @@ const LogEntry = React.memo(function LogEntry({ log }: LogEntryProps) {
   );
 });
 
+type RunListProps = {
+  runs: SyncRunSummary[];
+  selectedRunId: number | null;
+  onSelect: (runId: number) => void;
+};
+
+const RunList = React.memo(function RunList({ runs, selectedRunId, onSelect }: RunListProps) {
+  if (runs.length === 0) {
+    return (
+      <div className="text-center text-sm text-muted-foreground p-4">
+        同期履歴はありません
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {runs.map((run) => (
+        <button
+          key={run.id}
+          type="button"
+          onClick={() => onSelect(run.id)}
+          className={`w-full text-left p-3 rounded-lg border text-sm ${
+            run.id === selectedRunId ? 'border-primary bg-muted' : 'hover:bg-muted/50'
+          }`}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <Badge variant={statusVariants[run.status]}>{statusLabels[run.status]}</Badge>
+            <span className="text-xs text-muted-foreground">
+              {run.trigger === 'scheduled' ? '自動・' : ''}
+              {run.mode === 'pull-request' ? 'PR' : '直接'}
+            </span>
+          </div>
+          <div className="mt-2">
+            {new Date(run.startedAt).toLocaleString('ja-JP')}
+            {run.finishedAt && (
+              <span className="text-muted-foreground">
+                {' '}〜 {new Date(run.finishedAt).toLocaleTimeString('ja-JP')}
+              </span>
+            )}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {run.username ?? (run.trigger === 'scheduled' ? '定期実行' : '不明なユーザー')}
+            {run.commitSha && ` / ${run.commitSha.slice(0, 7)}`}
+          </div>
+          {run.changeSummary && (
+            <div className="text-xs text-muted-foreground mt-1 line-clamp-2">
+              {run.changeSummary}
+            </div>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+});
+
+function diffLineClassName(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-muted-foreground';
+  if (line.startsWith('@@')) return 'text-blue-600 bg-blue-50';
+  if (line.startsWith('+')) return 'text-green-700 bg-green-50';
+  if (line.startsWith('-')) return 'text-red-700 bg-red-50';
+  return '';
+}
+
+type SyncPreviewContentProps = {
+  preview: SyncPreview;
+  mode: SyncMode;
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+const SyncPreviewContent = React.memo(function SyncPreviewContent({
+  preview,
+  mode,
+  onConfirm,
+  onCancel
+}: SyncPreviewContentProps) {
+  const hasChanges = preview.targets.some(target => target.hasChanges);
+
+  return (
+    <div className="h-full flex flex-col gap-4 overflow-hidden">
+      <div className="rounded-lg bg-muted p-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="font-semibold">同期する内容</span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onCancel}>
+              <X className="h-4 w-4 mr-2" />
+              キャンセル
+            </Button>
+            <Button size="sm" onClick={onConfirm}>
+              <Check className="h-4 w-4 mr-2" />
+              {mode === 'pull-request' ? 'この内容でプルリクエストを作成' : 'この内容で同期'}
+            </Button>
+          </div>
+        </div>
+        {!hasChanges && (
+          <p className="text-sm text-muted-foreground">
+            コミット先のファイルとの差分はありません
+          </p>
+        )}
+      </div>
+      <ScrollArea className="flex-1 rounded-md border p-4">
+        <div className="space-y-4">
+          {preview.targets.map((target) => (
+            <div key={target.targetId} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-sm">{target.target}</span>
+                {target.comparedBranch && (
+                  <span className="text-xs text-muted-foreground">{target.comparedBranch} と比較</span>
+                )}
+                {target.isNewFile && <Badge variant="outline">新規作成</Badge>}
+                {!target.hasChanges && <Badge variant="secondary">変更なし</Badge>}
+              </div>
+              <pre className="text-sm whitespace-pre-wrap rounded-md bg-muted p-2">{target.commitMessage}</pre>
+              {target.diff ? (
+                <pre className="text-xs font-mono overflow-auto rounded-md border">
+                  {target.diff.split('\n').map((line, index) => (
+                    <div key={index} className={`px-2 ${diffLineClassName(line)}`}>
+                      {line || ' '}
+                    </div>
+                  ))}
+                </pre>
+              ) : (
+                <p className="text-sm text-muted-foreground">差分はありません</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+});
+
 type DebugContentProps = {
-  logs: DebugLog[];
+  logs: SyncLogEntry[];
   isLoading: boolean;
   error: Error | null;
   isSyncing: boolean;
+  isPreviewing: boolean;
 };
 
 const DebugContent = React.memo(function DebugContent({
   logs,
   isLoading,
   error,
-  isSyncing
+  isSyncing,
+  isPreviewing
 }: DebugContentProps) {
-  if (isLoading || isSyncing) {
+  if (isLoading || isSyncing || isPreviewing) {
     return (
       <div className="flex flex-col items-center justify-center h-full gap-4">
         <Loader2 className="h-8 w-8 animate-spin" />
         <p className="text-sm text-muted-foreground">
-          {isLoading ? 'ログを読み込み中...' : 'GitHubと同期中...'}
+          {isLoading ? 'ログを読み込み中...' : isPreviewing ? '差分を確認中...' : 'GitHubと同期中...'}
         </p>
       </div>
     );
@@ -95,7 +293,7 @@ const DebugContent = React.memo(function DebugContent({
   }
 
   return (
-    <ScrollArea className="h-[calc(80vh-8rem)] rounded-md border p-4">
+    <ScrollArea className="h-full rounded-md border p-4">
       <div className="space-y-4">
         {logs.map((log, index) => (
           <LogEntry key={`${log.timestamp}-${index}`} log={log} />
@@ -115,34 +313,69 @@ export default function SyncDebugPanel() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: logs = [], isLoading, error } = useQuery<DebugLog[], Error>({
-    queryKey: ['/api/admin/sync-debug-logs'],
-    queryFn: async () => {
-      const response = await fetch('/api/admin/sync-debug-logs', {
+  const [selectedRunId, setSelectedRunId] = React.useState<number | null>(null);
+
+  const { data: runs = [], isLoading: isLoadingRuns, error: runsError } = useQuery<SyncRunSummary[], Error>({
+    queryKey: ['/api/admin/sync-runs'],
+    queryFn: () => fetchJson('/api/admin/sync-runs', '同期履歴の取得に失敗しました'),
+    enabled: isOpen,
+    // 実行中の同期があれば完了するまで更新する
+    refetchInterval: (query) =>
+      isOpen && query.state.data?.some(run => run.status === 'running') ? 1000 : false,
+  });
+
+  const activeRunId = selectedRunId ?? runs[0]?.id ?? null;
+
+  const { data: activeRun, isLoading: isLoadingRun, error: runError } = useQuery<SyncRunDetail, Error>({
+    queryKey: ['/api/admin/sync-runs', activeRunId],
+    queryFn: () => fetchJson(`/api/admin/sync-runs/${activeRunId}`, 'デバッグログの取得に失敗しました'),
+    enabled: isOpen && activeRunId !== null,
+    refetchInterval: (query) =>
+      isOpen && query.state.data?.status === 'running' ? 1000 : false,
+  });
+
+  const [pendingSync, setPendingSync] = React.useState<{ mode: SyncMode; preview: SyncPreview } | null>(null);
+
+  // 同期する前に、コミット先のファイルとの差分を確認する
+  const previewMutation = useMutation({
+    mutationFn: async (mode: SyncMode) => {
+      const response = await fetch('/api/admin/sync-github/preview', {
+        method: 'POST',
         headers: {
           'Accept': 'application/json',
+          'Content-Type': 'application/json',
         },
-        credentials: 'include'
+        body: JSON.stringify({ mode }),
+        credentials: 'include',
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || errorData.message || errorData.details || 'デバッグログの取得に失敗しました');
+        throw new Error(errorData.details || errorData.error || '同期内容の確認に失敗しました');
       }
 
-      return response.json();
+      const preview: SyncPreview = await response.json();
+      return { mode, preview };
+    },
+    onSuccess: setPendingSync,
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "確認エラー",
+        description: error instanceof Error ? error.message : "同期内容の確認に失敗しました。",
+      });
     },
-    enabled: isOpen,
-    refetchInterval: isOpen ? 1000 : false,
   });
 
   const syncMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async ({ mode, preview }: { mode: SyncMode; preview: SyncPreview }) => {
       const response = await fetch('/api/admin/sync-github', {
         method: 'POST',
         headers: {
           'Accept': 'application/json',
+          'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ mode, contentHash: preview.contentHash }),
         credentials: 'include',
       });
 
@@ -155,10 +388,12 @@ export default function SyncDebugPanel() {
     },
     onSuccess: (data) => {
       toast({
-        title: "同期完了",
-        description: `GitHubリポジトリにイベント一覧を同期しました。${data.details ? `\n${data.details}` : ""}`,
+        variant: data.success ? "default" : "destructive",
+        title: data.success ? "同期完了" : "一部の同期に失敗しました",
+        description: `${data.message}\n${formatSyncResults(data.results)}`,
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/admin/sync-debug-logs'] });
+      setSelectedRunId(data.runId ?? null);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/sync-runs'] });
     },
     onError: (error) => {
       const isConfigError = error.message?.includes('GitHub同期は現在利用できません');
@@ -167,41 +402,85 @@ export default function SyncDebugPanel() {
         title: isConfigError ? "GitHub連携未設定" : "同期エラー",
         description: error instanceof Error ? error.message : "GitHubとの同期に失敗しました。",
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/admin/sync-debug-logs'] });
+      setSelectedRunId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/sync-runs'] });
     },
   });
 
+  const isBusy = previewMutation.isPending || syncMutation.isPending;
+  const busyMode = syncMutation.isPending ? syncMutation.variables?.mode : previewMutation.variables;
+
   return (
-    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) setPendingSync(null);
+      }}
+    >
       <DialogTrigger asChild>
         <Button variant="outline">
           <Bug className="h-4 w-4 mr-2" />
           デバッグパネル
         </Button>
       </DialogTrigger>
-      <DialogContent className="max-w-3xl h-[80vh]">
+      <DialogContent className="max-w-5xl h-[80vh] flex flex-col">
         <DialogHeader>
           <DialogTitle className="flex items-center justify-between">
             <span>GitHub同期デバッグパネル</span>
-            <Button
-              variant="outline"
-              onClick={() => syncMutation.mutate()}
-              disabled={syncMutation.isPending}
-            >
-              {syncMutation.isPending && (
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-              )}
-              GitHubと同期
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate('pull-request')}
+                disabled={isBusy}
+              >
+                {isBusy && busyMode === 'pull-request' ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <GitPullRequest className="h-4 w-4 mr-2" />
+                )}
+                プルリクエストで同期
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate('direct')}
+                disabled={isBusy}
+              >
+                {isBusy && busyMode === 'direct' && (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                )}
+                GitHubと同期
+              </Button>
+            </div>
           </DialogTitle>
         </DialogHeader>
-        <div className="flex-1 overflow-hidden">
-          <DebugContent
-            logs={logs}
-            isLoading={isLoading}
-            error={error}
-            isSyncing={syncMutation.isPending}
-          />
+        <div className="flex-1 overflow-hidden grid grid-cols-[16rem_1fr] gap-4">
+          <ScrollArea className="h-full rounded-md border p-2">
+            <RunList
+              runs={runs}
+              selectedRunId={activeRunId}
+              onSelect={setSelectedRunId}
+            />
+          </ScrollArea>
+          {pendingSync ? (
+            <SyncPreviewContent
+              preview={pendingSync.preview}
+              mode={pendingSync.mode}
+              onConfirm={() => {
+                syncMutation.mutate(pendingSync);
+                setPendingSync(null);
+              }}
+              onCancel={() => setPendingSync(null)}
+            />
+          ) : (
+            <DebugContent
+              logs={activeRun?.logs ?? []}
+              isLoading={isLoadingRuns || (activeRunId !== null && isLoadingRun)}
+              error={runsError ?? runError}
+              isSyncing={syncMutation.isPending}
+              isPreviewing={previewMutation.isPending}
+            />
+          )}
         </div>
       </DialogContent>
     </Dialog>
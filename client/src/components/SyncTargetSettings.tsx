@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { SyncTarget, SyncTargetFormat } from "@db/schema";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+type SyncTargetInput = Pick<SyncTarget, "owner" | "repo" | "branch" | "path" | "format" | "isEnabled">;
+
+const formatLabels: Record<SyncTargetFormat, string> = {
+  markdown: "マークダウン",
+  ics: "iCalendar",
+};
+
+const emptyTarget: SyncTargetInput = {
+  owner: "",
+  repo: "",
+  branch: "",
+  path: "all-events.md",
+  format: "markdown",
+  isEnabled: true,
+};
+
+async function fetchSyncTargets(): Promise<SyncTarget[]> {
+  const response = await fetch("/api/admin/sync-targets", {
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error("同期先の取得に失敗しました");
+  }
+  return response.json();
+}
+
+async function saveSyncTarget(target: SyncTargetInput & { id?: number }): Promise<SyncTarget> {
+  const response = await fetch(
+    target.id ? `/api/admin/sync-targets/${target.id}` : "/api/admin/sync-targets",
+    {
+      method: target.id ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(target),
+      credentials: "include",
+    }
+  );
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.details || error.error || "同期先の保存に失敗しました");
+  }
+  return response.json();
+}
+
+function SyncTargetRow({
+  target,
+  onSave,
+  onDelete,
+  isSaving,
+}: {
+  target: SyncTargetInput & { id?: number };
+  onSave: (target: SyncTargetInput & { id?: number }) => void;
+  onDelete?: () => void;
+  isSaving: boolean;
+}) {
+  const [draft, setDraft] = useState(target);
+  const update = (values: Partial<SyncTargetInput>) => setDraft(prev => ({ ...prev, ...values }));
+
+  return (
+    <TableRow>
+      <TableCell>
+        <Input value={draft.owner} placeholder="kawaguti" onChange={(e) => update({ owner: e.target.value })} />
+      </TableCell>
+      <TableCell>
+        <Input value={draft.repo} placeholder="ScrumFestMapViewer" onChange={(e) => update({ repo: e.target.value })} />
+      </TableCell>
+      <TableCell>
+        <Input
+          value={draft.branch ?? ""}
+          placeholder="デフォルト"
+          onChange={(e) => update({ branch: e.target.value })}
+        />
+      </TableCell>
+      <TableCell>
+        <Input value={draft.path} onChange={(e) => update({ path: e.target.value })} />
+      </TableCell>
+      <TableCell>
+        <Select value={draft.format} onValueChange={(value) => update({ format: value as SyncTargetFormat })}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(formatLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell>
+        <Switch checked={draft.isEnabled} onCheckedChange={(checked) => update({ isEnabled: checked })} />
+      </TableCell>
+      <TableCell>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onSave(draft)} disabled={isSaving}>
+            {draft.id ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+          </Button>
+          {onDelete && (
+            <Button variant="destructive" size="sm" onClick={onDelete} disabled={isSaving}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export function SyncTargetSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newRowKey, setNewRowKey] = useState(0);
+
+  const { data: targets = [], isLoading } = useQuery({
+    queryKey: ["admin", "syncTargets"],
+    queryFn: fetchSyncTargets,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: saveSyncTarget,
+    onSuccess: (_, target) => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "syncTargets"] });
+      if (!target.id) setNewRowKey(key => key + 1);
+      toast({
+        title: "保存完了",
+        description: "同期先を保存しました。",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "エラー",
+        description: error instanceof Error ? error.message : "同期先の保存に失敗しました。",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (targetId: number) => {
+      const response = await fetch(`/api/admin/sync-targets/${targetId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("同期先の削除に失敗しました");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "syncTargets"] });
+      toast({
+        title: "削除完了",
+        description: "同期先を削除しました。",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "エラー",
+        description: error instanceof Error ? error.message : "同期先の削除に失敗しました。",
+      });
+    },
+  });
+
+  const isSaving = saveMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>GitHub同期先</CardTitle>
+        <CardDescription>「GitHubに同期」で有効な同期先すべてにイベント一覧を公開します</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>オーナー</TableHead>
+                <TableHead>リポジトリ</TableHead>
+                <TableHead>ブランチ</TableHead>
+                <TableHead>ファイルパス</TableHead>
+                <TableHead>形式</TableHead>
+                <TableHead>有効</TableHead>
+                <TableHead>操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {targets.map((target) => (
+                <SyncTargetRow
+                  key={`${target.id}-${String(target.updatedAt)}`}
+                  target={target}
+                  isSaving={isSaving}
+                  onSave={(draft) => saveMutation.mutate(draft)}
+                  onDelete={() => {
+                    if (confirm("この同期先を削除してもよろしいですか？")) {
+                      deleteMutation.mutate(target.id);
+                    }
+                  }}
+                />
+              ))}
+              <SyncTargetRow
+                key={`new-${newRowKey}`}
+                target={emptyTarget}
+                isSaving={isSaving}
+                onSave={(draft) => saveMutation.mutate(draft)}
+              />
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,48 @@
+import type { Tag } from "@db/schema";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface TagSelectorProps {
+  tags: Tag[];
+  selectedIds: number[];
+  onChange: (selectedIds: number[]) => void;
+  className?: string;
+}
+
+// タグをチップとして並べ、クリックで選択を切り替える
+export function TagSelector({ tags, selectedIds, onChange, className }: TagSelectorProps) {
+  const toggle = (tagId: number) => {
+    onChange(
+      selectedIds.includes(tagId)
+        ? selectedIds.filter(id => id !== tagId)
+        : [...selectedIds, tagId]
+    );
+  };
+
+  return (
+    <div className={cn("flex flex-wrap gap-2", className)}>
+      {tags.map((tag) => {
+        const isSelected = selectedIds.includes(tag.id);
+        return (
+          <Badge
+            key={tag.id}
+            role="checkbox"
+            aria-checked={isSelected}
+            tabIndex={0}
+            variant={isSelected ? "default" : "outline"}
+            className="cursor-pointer select-none"
+            onClick={() => toggle(tag.id)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === " ") {
+                e.preventDefault();
+                toggle(tag.id);
+              }
+            }}
+          >
+            {tag.name}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
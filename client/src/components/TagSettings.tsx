@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Tag } from "@db/schema";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useTags } from "@/hooks/use-tags";
+
+type TagInput = Pick<Tag, "name">;
+
+async function saveTag(tag: TagInput & { id?: number }): Promise<Tag> {
+  const response = await fetch(
+    tag.id ? `/api/admin/tags/${tag.id}` : "/api/admin/tags",
+    {
+      method: tag.id ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(tag),
+      credentials: "include",
+    }
+  );
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.details || error.error || "タグの保存に失敗しました");
+  }
+  return response.json();
+}
+
+function TagRow({
+  tag,
+  eventCount,
+  onSave,
+  onDelete,
+  isSaving,
+}: {
+  tag: TagInput & { id?: number };
+  eventCount?: number;
+  onSave: (tag: TagInput & { id?: number }) => void;
+  onDelete?: () => void;
+  isSaving: boolean;
+}) {
+  const [draft, setDraft] = useState(tag);
+
+  return (
+    <TableRow>
+      <TableCell>
+        <Input
+          value={draft.name}
+          placeholder="生成AI"
+          onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+        />
+      </TableCell>
+      <TableCell>{draft.id ? `${eventCount ?? 0}件` : "-"}</TableCell>
+      <TableCell>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onSave(draft)} disabled={isSaving}>
+            {draft.id ? <Save className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+          </Button>
+          {onDelete && (
+            <Button variant="destructive" size="sm" onClick={onDelete} disabled={isSaving}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export function TagSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newRowKey, setNewRowKey] = useState(0);
+
+  const { data: tags = [], isLoading } = useTags();
+
+  const saveMutation = useMutation({
+    mutationFn: saveTag,
+    onSuccess: (_, tag) => {
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      queryClient.invalidateQueries({ queryKey: ["events"] });
+      if (!tag.id) setNewRowKey(key => key + 1);
+      toast({
+        title: "保存完了",
+        description: "タグを保存しました。",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "エラー",
+        description: error instanceof Error ? error.message : "タグの保存に失敗しました。",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (tagId: number) => {
+      const response = await fetch(`/api/admin/tags/${tagId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("タグの削除に失敗しました");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["tags"] });
+      queryClient.invalidateQueries({ queryKey: ["events"] });
+      toast({
+        title: "削除完了",
+        description: "タグを削除しました。",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "エラー",
+        description: error instanceof Error ? error.message : "タグの削除に失敗しました。",
+      });
+    },
+  });
+
+  const isSaving = saveMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>タグ</CardTitle>
+        <CardDescription>イベントのテーマを表すタグを管理します。トップページの地図でタグによる絞り込みができます</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>タグ名</TableHead>
+                <TableHead>イベント数</TableHead>
+                <TableHead>操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tags.map((tag) => (
+                <TagRow
+                  key={`${tag.id}-${String(tag.updatedAt)}`}
+                  tag={tag}
+                  eventCount={tag.eventCount}
+                  isSaving={isSaving}
+                  onSave={(draft) => saveMutation.mutate(draft)}
+                  onDelete={() => {
+                    if (confirm("このタグを削除してもよろしいですか？（各イベントからも外れます）")) {
+                      deleteMutation.mutate(tag.id);
+                    }
+                  }}
+                />
+              ))}
+              <TagRow
+                key={`new-${newRowKey}`}
+                tag={{ name: "" }}
+                isSaving={isSaving}
+                onSave={(draft) => saveMutation.mutate(draft)}
+              />
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import type { EventSeriesSummary } from "@/lib/eventSeries";
+
+async function fetchEventSeries(): Promise<EventSeriesSummary[]> {
+  const response = await fetch("/api/series");
+  if (!response.ok) {
+    throw new Error("シリーズの取得に失敗しました");
+  }
+  return response.json();
+}
+
+export function useEventSeries() {
+  return useQuery({
+    queryKey: ["series"],
+    queryFn: fetchEventSeries,
+  });
+}
@@ -0,0 +1,25 @@
+import { useCallback, useMemo } from "react";
+import { useLocation, useSearch } from "wouter";
+import { parseMapUrlState, serializeMapUrlState, type MapUrlState } from "@/lib/mapUrlState";
+
+interface UpdateOptions {
+  // 地図の移動や入力途中の検索語など、履歴を増やしたくない変更では true
+  replace?: boolean;
+}
+
+// 地図ページの表示状態をクエリ文字列と同期する
+export function useMapUrlState() {
+  const search = useSearch();
+  const [location, navigate] = useLocation();
+  const state = useMemo(() => parseMapUrlState(search), [search]);
+
+  const update = useCallback((changes: Partial<MapUrlState>, options: UpdateOptions = {}) => {
+    // 同じ描画中に続けて呼ばれても変更が失われないよう、現在の URL から組み立てる
+    const current = parseMapUrlState(window.location.search);
+    const query = serializeMapUrlState({ ...current, ...changes });
+    if (query === serializeMapUrlState(current)) return;
+    navigate(query ? `${location}?${query}` : location, { replace: options.replace });
+  }, [location, navigate]);
+
+  return [state, update] as const;
+}
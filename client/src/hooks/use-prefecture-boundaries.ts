@@ -0,0 +1,29 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import type { Topology } from "topojson-specification";
+import {
+  getBoundaryUrl,
+  toPrefectureGeoJSON,
+  type BoundaryLevel,
+  type PrefectureFeatureCollection,
+} from "@/lib/prefectureBoundaries";
+
+async function fetchPrefectureBoundaries(level: BoundaryLevel): Promise<PrefectureFeatureCollection> {
+  const response = await fetch(getBoundaryUrl(level));
+  if (!response.ok) {
+    throw new Error("都道府県の境界データの取得に失敗しました");
+  }
+  const topology: Topology = await response.json();
+  return toPrefectureGeoJSON(topology);
+}
+
+// 境界データは変わらないので、一度読み込んだ簡略化レベルは使い回す。
+// レベルを切り替えて読み込む間は前のレベルの境界を表示しておく
+export function usePrefectureBoundaries(level: BoundaryLevel) {
+  return useQuery({
+    queryKey: ["prefectureBoundaries", level],
+    queryFn: () => fetchPrefectureBoundaries(level),
+    placeholderData: keepPreviousData,
+    staleTime: Infinity,
+    retry: false,
+  });
+}
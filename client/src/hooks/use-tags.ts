@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import type { TagSummary } from "@/lib/eventTags";
+
+async function fetchTags(): Promise<TagSummary[]> {
+  const response = await fetch("/api/tags");
+  if (!response.ok) {
+    throw new Error("タグの取得に失敗しました");
+  }
+  return response.json();
+}
+
+export function useTags() {
+  return useQuery({
+    queryKey: ["tags"],
+    queryFn: fetchTags,
+  });
+}
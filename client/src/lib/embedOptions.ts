@@ -0,0 +1,97 @@
+import type { Event } from "@db/schema";
+import { isUpcomingEvent } from "./eventDates";
+import { getEventRegion, regions, type Region } from "./eventRegions";
+import { prefectureCoordinates, prefectures } from "./prefectures";
+
+export type EmbedPeriod = "upcoming" | "past" | "all";
+export type EmbedTheme = "light" | "dark";
+
+// /embed のクエリパラメータで指定できる表示オプション
+export interface EmbedOptions {
+  period: EmbedPeriod;
+  region: Region | null;
+  // 強調表示するシリーズ
+  seriesId: number | null;
+  // 地図の高さ（px）
+  height: number;
+  theme: EmbedTheme;
+}
+
+export const MIN_EMBED_HEIGHT = 240;
+export const MAX_EMBED_HEIGHT = 1200;
+
+export const DEFAULT_EMBED_OPTIONS: EmbedOptions = {
+  period: "upcoming",
+  region: null,
+  seriesId: null,
+  height: 480,
+  theme: "light",
+};
+
+// 埋め込み先のページへ高さを伝えるメッセージの種類（public/embed.js と合わせる）
+export const EMBED_RESIZE_MESSAGE = "scrumfes-map:resize";
+
+export function clampEmbedHeight(height: number): number {
+  return Math.min(Math.max(Math.round(height), MIN_EMBED_HEIGHT), MAX_EMBED_HEIGHT);
+}
+
+// 不正な値は既定値にする（埋め込み先で書き換えられても表示できるように）
+export function parseEmbedOptions(search: string): EmbedOptions {
+  const params = new URLSearchParams(search);
+  const period = params.get("period");
+  const region = params.get("region");
+  const seriesId = Number(params.get("series"));
+  const height = Number(params.get("height"));
+
+  return {
+    period: period === "past" || period === "all" ? period : DEFAULT_EMBED_OPTIONS.period,
+    region: regions.find(r => r === region) ?? null,
+    seriesId: Number.isInteger(seriesId) && seriesId > 0 ? seriesId : null,
+    height: params.has("height") && Number.isFinite(height) ? clampEmbedHeight(height) : DEFAULT_EMBED_OPTIONS.height,
+    theme: params.get("theme") === "dark" ? "dark" : "light",
+  };
+}
+
+export function buildEmbedUrl(origin: string, options: EmbedOptions): string {
+  const params = new URLSearchParams();
+  if (options.period !== DEFAULT_EMBED_OPTIONS.period) params.set("period", options.period);
+  if (options.region) params.set("region", options.region);
+  if (options.seriesId) params.set("series", String(options.seriesId));
+  if (options.height !== DEFAULT_EMBED_OPTIONS.height) params.set("height", String(options.height));
+  if (options.theme !== DEFAULT_EMBED_OPTIONS.theme) params.set("theme", options.theme);
+  const query = params.toString();
+  return `${origin}/embed${query ? `?${query}` : ""}`;
+}
+
+// 地図の下のリンクと余白の分。スクリプトがない場合の iframe の高さに足す
+const EMBED_FOOTER_HEIGHT = 40;
+
+// 埋め込み先に貼り付ける HTML。スクリプトを読み込むと iframe の高さが自動で調整される
+export function buildEmbedSnippet(origin: string, options: EmbedOptions): string {
+  const frameHeight = options.height + EMBED_FOOTER_HEIGHT;
+  return [
+    `<iframe src="${buildEmbedUrl(origin, options)}" data-scrumfes-map title="スクラムフェスマップ" ` +
+      `width="100%" height="${frameHeight}" style="border: 0; width: 100%;" loading="lazy"></iframe>`,
+    `<script src="${origin}/embed.js" async></script>`,
+  ].join("\n");
+}
+
+export function filterEmbedEvents<T extends Event>(events: T[], options: EmbedOptions): T[] {
+  return events.filter(event => {
+    if (options.region && getEventRegion(event) !== options.region) return false;
+    if (options.period === "all") return true;
+    const upcoming = isUpcomingEvent(event);
+    return options.period === "upcoming" ? upcoming : !upcoming;
+  });
+}
+
+// 地方の都道府県の中心あたりを表示する
+export function getRegionCenter(region: Region): [number, number] {
+  const coordinates = prefectures
+    .filter(p => p.region === region)
+    .map(p => prefectureCoordinates[p.name])
+    .filter((value): value is [number, number] => Boolean(value));
+  const lat = coordinates.reduce((sum, [value]) => sum + value, 0) / coordinates.length;
+  const lng = coordinates.reduce((sum, [, value]) => sum + value, 0) / coordinates.length;
+  return [lat, lng];
+}
@@ -0,0 +1,131 @@
+import type { Event } from "@db/schema";
+import { resolveEventLocation } from "./eventLocation";
+import { formatEventPlace } from "./eventVenue";
+import { toJSTDateKey } from "./eventDates";
+
+interface CalendarOptions {
+  calendarName?: string;
+}
+
+const PRODUCT_ID = "-//ScrumFestMap//Scrum Fest Map//JA";
+const UID_DOMAIN = "scrumfestmap.kawaguti.dev";
+const TIMEZONE = "Asia/Tokyo";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// RFC 5545 形式のカレンダーを生成する（各イベントは終日予定として出力）
+export function generateEventCalendar(events: Event[], options: CalendarOptions = {}): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.calendarName ?? "スクラムフェスマップ")}`,
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    ...events
+      .filter(event => !event.isArchived)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .flatMap(generateEventComponent),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function getEventUid(event: Pick<Event, "id">): string {
+  return `event-${event.id}@${UID_DOMAIN}`;
+}
+
+function generateEventComponent(event: Event): string[] {
+  // DTEND は終了日の翌日（排他的）
+  const dayAfterLastDay = new Date(new Date(event.endDate ?? event.date).getTime() + DAY_MS);
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${getEventUid(event)}`,
+    `DTSTAMP:${formatDateTime(new Date(event.updatedAt))}`,
+    `LAST-MODIFIED:${formatDateTime(new Date(event.updatedAt))}`,
+    `CREATED:${formatDateTime(new Date(event.createdAt))}`,
+    `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+    `DTEND;VALUE=DATE:${formatDate(dayAfterLastDay)}`,
+    `SUMMARY:${escapeText(event.name)}`,
+    `LOCATION:${escapeText(formatLocation(event))}`,
+  ];
+
+  const location = resolveEventLocation(event);
+  if (location) {
+    lines.push(`GEO:${location.lat};${location.lng}`);
+  }
+
+  const description = generateDescription(event);
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeText(description)}`);
+  }
+
+  if (event.website) {
+    lines.push(`URL:${event.website}`);
+  }
+
+  lines.push("TRANSP:TRANSPARENT", "END:VEVENT");
+  return lines;
+}
+
+// 会場名・住所があればそれを、なければ開催地を使う
+function formatLocation(event: Event): string {
+  const venue = [event.venueName?.trim(), event.venueAddress?.trim()].filter(Boolean).join(", ");
+  return venue || formatEventPlace(event);
+}
+
+function generateDescription(event: Event): string {
+  const parts: string[] = [];
+  if (event.description?.trim()) {
+    parts.push(event.description.trim());
+  }
+  if (event.website) {
+    parts.push(`Webサイト: ${event.website}`);
+  }
+  if (event.youtubePlaylist?.trim()) {
+    parts.push(`録画一覧: ${event.youtubePlaylist}`);
+  }
+  return parts.join("\n\n");
+}
+
+// 日本時間の日付を YYYYMMDD で出力する
+function formatDate(value: Date | string): string {
+  return toJSTDateKey(value).replace(/-/g, "");
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// 1行75オクテットを超える場合は折り返す（マルチバイト文字の途中では折り返さない）
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
@@ -0,0 +1,21 @@
+// イベントの項目名（編集履歴やフィードの表示に使う）
+export const eventColumnLabels: Record<string, string> = {
+  name: "イベント名",
+  prefecture: "開催都道府県",
+  date: "開催日",
+  endDate: "終了日",
+  website: "Webサイト",
+  description: "説明",
+  youtubePlaylist: "YouTubeプレイリスト",
+  coordinates: "座標",
+  venueName: "会場名",
+  venueAddress: "会場住所",
+  attendanceMode: "開催形式",
+  seriesId: "シリーズ",
+  isArchived: "アーカイブ",
+  tags: "タグ",
+};
+
+export function getEventColumnLabel(column: string): string {
+  return eventColumnLabels[column] || column;
+}
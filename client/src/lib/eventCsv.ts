@@ -0,0 +1,173 @@
+import type { Event } from "@db/schema";
+import { fromJSTDateParts, toJSTDateKey } from "./eventDates";
+
+// Excel（日本語環境）で文字化けしないよう UTF-8 の BOM を付ける
+const BOM = "\uFEFF";
+// 文字コードを読み違えると置換文字（U+FFFD）が入る
+const REPLACEMENT_CHARACTER = "\uFFFD";
+// Excel が数式として扱う先頭文字（「'」で始まる値も取り込み時に区別できるよう含める）
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r']/;
+const TEXT_PREFIX = "'";
+
+export const CSV_ENCODING_ERROR_MESSAGE =
+  "CSVの文字コードを読み取れません。UTF-8 または Shift_JIS で保存したファイルを選択してください";
+
+export const eventCsvColumns = [
+  "id",
+  "name",
+  "prefecture",
+  "attendanceMode",
+  "venueName",
+  "venueAddress",
+  "date",
+  "endDate",
+  "website",
+  "youtubePlaylist",
+  "coordinates",
+  "description",
+  "archived",
+] as const;
+
+export type EventCsvColumn = typeof eventCsvColumns[number];
+export type EventCsvRecord = Record<EventCsvColumn, string>;
+
+export function generateEventCsv(events: Event[]): string {
+  const rows = [...events]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map(event => {
+      const record: EventCsvRecord = {
+        id: String(event.id),
+        name: event.name,
+        prefecture: event.prefecture,
+        attendanceMode: event.attendanceMode,
+        venueName: event.venueName ?? "",
+        venueAddress: event.venueAddress ?? "",
+        date: toJSTDateKey(event.date),
+        endDate: event.endDate ? toJSTDateKey(event.endDate) : "",
+        website: event.website ?? "",
+        youtubePlaylist: event.youtubePlaylist ?? "",
+        coordinates: event.coordinates ?? "",
+        description: event.description ?? "",
+        archived: event.isArchived ? "true" : "false",
+      };
+      return eventCsvColumns.map(column => record[column]);
+    });
+
+  return BOM + [eventCsvColumns as readonly string[], ...rows]
+    .map(row => row.map(escapeCsvField).join(","))
+    .join("\r\n") + "\r\n";
+}
+
+// 置換文字を含む最初の行番号（1始まり）。なければ null
+export function findUndecodableLine(text: string): number | null {
+  const index = text.indexOf(REPLACEMENT_CHARACTER);
+  if (index === -1) return null;
+  return text.slice(0, index).split("\n").length;
+}
+
+export interface CsvRow {
+  // 行が始まるファイル上の行番号（1始まり。引用符内の改行も数える）
+  line: number;
+  fields: string[];
+}
+
+// RFC 4180 形式の CSV を行ごとのフィールドに分解する
+export function parseCsv(text: string): CsvRow[] {
+  const input = text.startsWith(BOM) ? text.slice(1) : text;
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    const isLineBreak = char === "\n" || (char === "\r" && input[i + 1] !== "\n");
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      if (isLineBreak) line++;
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ line: rowLine, fields: row });
+      row = [];
+      field = "";
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, fields: row });
+  }
+
+  // 空行は読み飛ばす
+  return rows.filter(({ fields }) => fields.some(value => value.trim() !== ""));
+}
+
+// 見出し行の列名で各行をレコードにする（未知の列は無視する）
+export function parseEventCsv(text: string): { records: Array<{ line: number; record: Partial<EventCsvRecord> }>; missingColumns: EventCsvColumn[] } {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header?.fields ?? []).map(name => name.trim());
+  const missingColumns = (["name", "prefecture", "date"] as const).filter(
+    column => !columns.includes(column)
+  );
+
+  const records = rows.map(({ line, fields }) => {
+    const record: Partial<EventCsvRecord> = {};
+    columns.forEach((column, columnIndex) => {
+      if ((eventCsvColumns as readonly string[]).includes(column)) {
+        record[column as EventCsvColumn] = unescapeCsvValue((fields[columnIndex] ?? "").trim());
+      }
+    });
+    return { line, record };
+  });
+
+  return { records, missingColumns };
+}
+
+// YYYY-MM-DD または YYYY/M/D を日本時間の0時として解釈する
+export function parseCsvDate(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const date = fromJSTDateParts(year, month, day);
+  // 2月30日のような存在しない日付は繰り上がるため、元の月日と一致するか確かめる
+  const [, jstMonth, jstDay] = toJSTDateKey(date).split("-").map(Number);
+  if (jstMonth !== month || jstDay !== day) return null;
+  return date;
+}
+
+// 数式として実行されないよう（CSV インジェクション対策）、該当する値は「'」を付けて引用符で囲む
+function escapeCsvField(value: string): string {
+  if (FORMULA_PREFIX_PATTERN.test(value)) {
+    return `"${TEXT_PREFIX}${value.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// escapeCsvField で付けた先頭の「'」を外す
+function unescapeCsvValue(value: string): string {
+  return value.startsWith(TEXT_PREFIX) ? value.slice(TEXT_PREFIX.length) : value;
+}
@@ -0,0 +1,51 @@
+import type { Event } from "@db/schema";
+import { format } from "date-fns";
+import { ja } from "date-fns/locale";
+
+type EventPeriod = Pick<Event, "date" | "endDate">;
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+// 終了日が未設定のイベントは開始日のみの1日開催として扱う
+export function getEventEndDate(event: EventPeriod): Date {
+  return new Date(event.endDate ?? event.date);
+}
+
+export function isMultiDayEvent(event: EventPeriod): boolean {
+  if (!event.endDate) return false;
+  return format(new Date(event.date), "yyyyMMdd") !== format(new Date(event.endDate), "yyyyMMdd");
+}
+
+// 保存されている日時を日本時間の日付 (YYYY-MM-DD) にする（実行環境のタイムゾーンに関係しない）
+export function toJSTDateKey(value: Date | string): string {
+  return new Date(new Date(value).getTime() + JST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+// 日本時間の年月日（月は1始まり）を、その日の日本時間0時の日時にする
+export function fromJSTDateParts(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day) - JST_OFFSET_MS);
+}
+
+export function isSameJSTDay(a: Date | string, b: Date | string): boolean {
+  return toJSTDateKey(a) === toJSTDateKey(b);
+}
+
+// 最終日が終わるまでは「これから」のイベントとみなす
+export function isUpcomingEvent(event: EventPeriod, now: Date = new Date()): boolean {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+
+  const lastDay = getEventEndDate(event);
+  lastDay.setHours(0, 0, 0, 0);
+
+  return lastDay >= today;
+}
+
+export function formatEventPeriod(
+  event: EventPeriod,
+  pattern: string = "yyyy年M月d日(E)"
+): string {
+  const start = format(new Date(event.date), pattern, { locale: ja });
+  if (!isMultiDayEvent(event)) return start;
+  return `${start}〜${format(getEventEndDate(event), pattern, { locale: ja })}`;
+}
@@ -0,0 +1,142 @@
+import type { AttendanceMode, Event } from "@db/schema";
+import { resolveEventLocation, type CoordinateSource, type EventLocation } from "./eventLocation";
+import { toJSTDateKey } from "./eventDates";
+
+const SITE_URL = "https://scrumfestmap.kawaguti.dev";
+
+export interface EventFeatureProperties {
+  id: number;
+  name: string;
+  prefecture: string;
+  date: string;
+  endDate: string | null;
+  website: string | null;
+  youtubePlaylist: string | null;
+  description: string | null;
+  venueName: string | null;
+  venueAddress: string | null;
+  attendanceMode: AttendanceMode;
+  coordinateSource: CoordinateSource;
+}
+
+export interface EventFeatureCollection {
+  type: "FeatureCollection";
+  features: Array<{
+    type: "Feature";
+    geometry: { type: "Point"; coordinates: [number, number] };
+    properties: EventFeatureProperties;
+  }>;
+}
+
+const coordinateSourceLabels: Record<CoordinateSource, string> = {
+  user: "ユーザー指定座標",
+  prefecture: "都道府県座標",
+};
+
+// GeoJSON (RFC 7946) の FeatureCollection を生成する（座標は [経度, 緯度] の順）
+export function generateEventGeoJSON(events: Event[]): EventFeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: locateEvents(events).map(({ event, location }) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [location.lng, location.lat] },
+      properties: toProperties(event, location),
+    })),
+  };
+}
+
+// KML 2.2 を生成する（Google マイマップ・uMap で読み込める形式）
+export function generateEventKml(events: Event[], documentName = "スクラムフェスマップ"): string {
+  const placemarks = locateEvents(events).flatMap(({ event, location }) => {
+    const properties = toProperties(event, location);
+    const data: Array<[string, string | null]> = [
+      ["prefecture", properties.prefecture],
+      ["attendanceMode", properties.attendanceMode],
+      ["venueName", properties.venueName],
+      ["venueAddress", properties.venueAddress],
+      ["date", properties.date],
+      ["endDate", properties.endDate],
+      ["website", properties.website],
+      ["youtubePlaylist", properties.youtubePlaylist],
+      ["coordinateSource", properties.coordinateSource],
+    ];
+
+    return [
+      `    <Placemark id="event-${event.id}">`,
+      `      <name>${escapeXml(event.name)}</name>`,
+      `      <description>${escapeXml(generateDescription(properties))}</description>`,
+      "      <ExtendedData>",
+      ...data
+        .filter((entry): entry is [string, string] => entry[1] !== null)
+        .map(([name, value]) => `        <Data name="${name}"><value>${escapeXml(value)}</value></Data>`),
+      "      </ExtendedData>",
+      `      <Point><coordinates>${location.lng},${location.lat},0</coordinates></Point>`,
+      "    </Placemark>",
+    ];
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "  <Document>",
+    `    <name>${escapeXml(documentName)}</name>`,
+    `    <description>${SITE_URL}</description>`,
+    ...placemarks,
+    "  </Document>",
+    "</kml>",
+  ].join("\n") + "\n";
+}
+
+function locateEvents(events: Event[]): Array<{ event: Event; location: EventLocation }> {
+  return events
+    .filter(event => !event.isArchived)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .flatMap(event => {
+      const location = resolveEventLocation(event);
+      return location ? [{ event, location }] : [];
+    });
+}
+
+function toProperties(event: Event, location: EventLocation): EventFeatureProperties {
+  return {
+    id: event.id,
+    name: event.name,
+    prefecture: event.prefecture,
+    date: toJSTDateKey(event.date),
+    endDate: event.endDate ? toJSTDateKey(event.endDate) : null,
+    website: event.website || null,
+    youtubePlaylist: event.youtubePlaylist?.trim() || null,
+    description: event.description?.trim() || null,
+    venueName: event.venueName?.trim() || null,
+    venueAddress: event.venueAddress?.trim() || null,
+    attendanceMode: event.attendanceMode,
+    coordinateSource: location.source,
+  };
+}
+
+function generateDescription(properties: EventFeatureProperties): string {
+  const period = properties.endDate && properties.endDate !== properties.date
+    ? `${properties.date}〜${properties.endDate}`
+    : properties.date;
+  const lines = [
+    `開催地: ${properties.prefecture}`,
+    ...(properties.venueName ? [`会場: ${properties.venueName}`] : []),
+    ...(properties.venueAddress ? [`会場住所: ${properties.venueAddress}`] : []),
+    `開催日: ${period}`,
+  ];
+  if (properties.website) lines.push(`Webサイト: ${properties.website}`);
+  if (properties.youtubePlaylist) lines.push(`録画一覧: ${properties.youtubePlaylist}`);
+  lines.push(`座標: ${coordinateSourceLabels[properties.coordinateSource]}`);
+  if (properties.description) lines.push("", properties.description);
+  return lines.join("\n");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
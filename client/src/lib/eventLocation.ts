@@ -0,0 +1,35 @@
+import type { Event } from "@db/schema";
+import { prefectureCoordinates } from "./prefectures";
+
+export type CoordinateSource = "user" | "prefecture";
+
+export interface EventLocation {
+  lat: number;
+  lng: number;
+  source: CoordinateSource;
+}
+
+// ユーザー指定の座標を優先し、なければ都道府県の座標を使う（マークダウンの「座標」と同じ規則）
+// オンラインのみのイベントは地点を持たない
+export function resolveEventLocation(
+  event: Pick<Event, "coordinates" | "prefecture" | "attendanceMode">
+): EventLocation | null {
+  if (event.attendanceMode === "online") {
+    return null;
+  }
+
+  if (event.coordinates && event.coordinates.trim() !== "") {
+    const [lat, lng] = event.coordinates.split(",").map(coord => Number(coord.trim()));
+    if (!isNaN(lat) && !isNaN(lng)) {
+      return { lat, lng, source: "user" };
+    }
+  }
+
+  const prefCoords = prefectureCoordinates[event.prefecture];
+  if (prefCoords) {
+    const [lat, lng] = prefCoords;
+    return { lat, lng, source: "prefecture" };
+  }
+
+  return null;
+}
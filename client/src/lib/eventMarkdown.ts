@@ -1,20 +1,31 @@
 
-import type { Event } from "@db/schema";
+import type { Event, Tag } from "@db/schema";
 import { format } from "date-fns";
 import { ja } from "date-fns/locale";
 import { prefectureCoordinates } from "./prefectures";
+import { attendanceModeLabels, isOnlineOnlyEvent, ONLINE_GROUP_NAME } from "./eventVenue";
+import { formatEventTags } from "./eventTags";
 
 interface MarkdownOptions {
   includeMapLink?: boolean;
   includeTimestamp?: boolean;
 }
 
-export function generateEventMarkdown(events: Event[], options: MarkdownOptions = {}): string {
+// タグはイベント取得時に付与されている場合のみ出力する
+export type MarkdownEvent = Event & { tags?: Tag[] };
+
+const TIMESTAMP_PATTERN = /^作成日時: .*(?:\r?\n)?/m;
+
+export function generateEventMarkdown(events: MarkdownEvent[], options: MarkdownOptions = {}): string {
   let header = `# スクラムフェスマップ\n\n`;
   
   if (options.includeMapLink) {
     header += `- マップ: https://scrumfestmap.kawaguti.dev\n\n`;
   }
+
+  if (options.includeTimestamp) {
+    header += `作成日時: ${format(toJST(new Date()), "yyyy年MM月dd日 HH:mm")}\n\n`;
+  }
   
   header += `---\n\n`;
 
@@ -27,9 +38,15 @@ export function generateEventMarkdown(events: Event[], options: MarkdownOptions
   return header + eventsList;
 }
 
-function generateEventSection(event: Event): string {
+// 作成日時の行を除いた内容を返す（生成のたびに変わる行を比較対象から外す）
+export function stripMarkdownTimestamp(markdown: string): string {
+  return markdown.replace(TIMESTAMP_PATTERN, '');
+}
+
+function generateEventSection(event: MarkdownEvent): string {
   let markdown = `## ${event.name}\n\n`;
   markdown += generateLocationInfo(event);
+  markdown += generateTagsInfo(event);
   markdown += generateDateInfo(event);
   markdown += generateDescriptionSection(event);
   markdown += generateLinksSection(event);
@@ -38,7 +55,23 @@ function generateEventSection(event: Event): string {
 }
 
 function generateLocationInfo(event: Event): string {
-  let info = `- 開催地: ${event.prefecture}\n`;
+  let info = `- 開催地: ${event.prefecture || ONLINE_GROUP_NAME}\n`;
+
+  // 現地開催（既定）の場合は開催形式を省略する
+  if (event.attendanceMode !== "onsite") {
+    info += `- 開催形式: ${attendanceModeLabels[event.attendanceMode]}\n`;
+  }
+  if (event.venueName?.trim()) {
+    info += `- 会場: ${event.venueName.trim()}\n`;
+  }
+  if (event.venueAddress?.trim()) {
+    info += `- 会場住所: ${event.venueAddress.trim()}\n`;
+  }
+
+  // オンラインのみのイベントは座標を持たない
+  if (isOnlineOnlyEvent(event)) {
+    return info;
+  }
   
   // イベントの座標が指定されている場合はそれを使用
   if (event.coordinates && event.coordinates.trim() !== '') {
@@ -57,10 +90,24 @@ function generateLocationInfo(event: Event): string {
   return info;
 }
 
-function generateDateInfo(event: Event): string {
-  const date = new Date(event.date);
+function generateTagsInfo(event: MarkdownEvent): string {
+  if (!event.tags?.length) return '';
+  return `- タグ: ${formatEventTags(event)}\n`;
+}
+
+function toJST(value: Date | string): Date {
+  const date = new Date(value);
   date.setHours(date.getHours() + 9); // JST adjustment
-  return `- 開催日: ${format(date, "yyyy年MM月dd日(E)", { locale: ja })}\n\n`;
+  return date;
+}
+
+function generateDateInfo(event: Event): string {
+  const start = format(toJST(event.date), "yyyy年MM月dd日(E)", { locale: ja });
+  const end = event.endDate
+    ? format(toJST(event.endDate), "yyyy年MM月dd日(E)", { locale: ja })
+    : start;
+  const period = end === start ? start : `${start}〜${end}`;
+  return `- 開催日: ${period}\n\n`;
 }
 
 function generateDescriptionSection(event: Event): string {
@@ -0,0 +1,228 @@
+import type { AttendanceMode } from "@db/schema";
+import { prefectureCoordinates } from "./prefectures";
+import { attendanceModeLabels, ONLINE_GROUP_NAME } from "./eventVenue";
+import { parseTagNames } from "./eventTags";
+import { fromJSTDateParts } from "./eventDates";
+
+// generateEventMarkdown の出力と、旧形式の all-events.md（「説明:」項目・Leaflet形式の座標）の両方を読み込む
+export interface ParsedMarkdownEvent {
+  name: string;
+  prefecture: string;
+  date: Date;
+  endDate: Date | null;
+  coordinates: string | null;
+  description: string | null;
+  website: string | null;
+  youtubePlaylist: string | null;
+  venueName: string | null;
+  venueAddress: string | null;
+  attendanceMode: AttendanceMode;
+  // 「タグ:」の項目がなければ null（既存のタグを変更しない）
+  tagNames: string[] | null;
+}
+
+export interface MarkdownParseError {
+  section: string;
+  line: number;
+  message: string;
+}
+
+export interface MarkdownParseResult {
+  events: ParsedMarkdownEvent[];
+  errors: MarkdownParseError[];
+}
+
+type FieldKey = "開催地" | "開催形式" | "会場" | "会場住所" | "座標" | "タグ" | "開催日" | "説明" | "Webサイト" | "録画一覧";
+
+interface RawSection {
+  name: string;
+  line: number;
+  bodyLines: string[];
+  fields: Partial<Record<FieldKey, string>>;
+  descriptionLines: string[];
+}
+
+const FIELD_PATTERN = /^- (開催地|開催形式|会場|会場住所|座標|タグ|開催日|説明|Webサイト|録画一覧):\s*(.*)$/;
+// セクション末尾のリンクの項目
+const LINK_FIELD_PATTERN = /^- (Webサイト|録画一覧):\s*(.*)$/;
+const DATE_PATTERN = /(\d{4})年(\d{1,2})月(\d{1,2})日/g;
+
+export function parseEventMarkdown(markdown: string): MarkdownParseResult {
+  const sections = splitSections(markdown);
+  const events: ParsedMarkdownEvent[] = [];
+  const errors: MarkdownParseError[] = [];
+
+  for (const section of sections) {
+    const result = parseSection(section);
+    if (typeof result === "string") {
+      errors.push({ section: section.name, line: section.line, message: result });
+    } else {
+      events.push(result);
+    }
+  }
+
+  return { events, errors };
+}
+
+function splitSections(markdown: string): RawSection[] {
+  const sections: RawSection[] = [];
+  let current: RawSection | null = null;
+
+  markdown.split(/\r?\n/).forEach((line, index) => {
+    if (line.startsWith("## ")) {
+      current = {
+        name: line.slice(3).trim(),
+        line: index + 1,
+        bodyLines: [],
+        fields: {},
+        descriptionLines: [],
+      };
+      sections.push(current);
+      return;
+    }
+
+    if (!current) return;
+
+    // 区切り線でセクションの本文は終わり
+    if (line.trim() === "---") {
+      current = null;
+      return;
+    }
+
+    current.bodyLines.push(line);
+  });
+
+  sections.forEach(splitSectionBody);
+  return sections;
+}
+
+// 見出し直後の項目の並び（ヘッダー）、末尾のリンクの項目、その間の説明文に分ける。
+// 説明文の中の「- 会場: 」のような行は項目として扱わない
+function splitSectionBody(section: RawSection) {
+  const lines = section.bodyLines;
+  let start = 0;
+  while (start < lines.length && lines[start].trim() === "") start++;
+
+  for (; start < lines.length; start++) {
+    const field = lines[start].match(FIELD_PATTERN);
+    if (!field) break;
+    if (field[1] === "説明") {
+      readLegacySectionBody(section, lines.slice(start));
+      return;
+    }
+    section.fields[field[1] as FieldKey] = field[2].trim();
+  }
+
+  let end = lines.length;
+  while (end > start && lines[end - 1].trim() === "") end--;
+  let linksStart = end;
+  while (linksStart > start && LINK_FIELD_PATTERN.test(lines[linksStart - 1])) linksStart--;
+  for (const line of lines.slice(linksStart, end)) {
+    const [, key, value] = line.match(LINK_FIELD_PATTERN)!;
+    section.fields[key as FieldKey] = value.trim();
+  }
+
+  if (section.fields["開催日"] !== undefined) {
+    section.descriptionLines.push(...lines.slice(start, linksStart));
+  }
+}
+
+// 旧形式では「説明:」から次の項目までの行が説明文
+function readLegacySectionBody(section: RawSection, lines: string[]) {
+  let inDescription = false;
+
+  for (const line of lines) {
+    const field = line.match(FIELD_PATTERN);
+    if (field) {
+      const key = field[1] as FieldKey;
+      if (key === "説明") {
+        inDescription = true;
+        if (field[2].trim()) section.descriptionLines.push(field[2]);
+      } else {
+        inDescription = false;
+        section.fields[key] = field[2].trim();
+      }
+      continue;
+    }
+
+    if (inDescription || section.fields["開催日"] !== undefined) {
+      section.descriptionLines.push(line);
+    }
+  }
+}
+
+function parseSection(section: RawSection): ParsedMarkdownEvent | string {
+  if (!section.name) return "イベント名がありません";
+
+  const attendanceMode = parseAttendanceMode(section.fields["開催形式"]);
+  if (!attendanceMode) return `不明な開催形式です: ${section.fields["開催形式"]}`;
+
+  const place = section.fields["開催地"];
+  if (!place) return "開催地がありません";
+  // オンラインのみのイベントは開催地を「オンライン」と書ける
+  const prefecture = attendanceMode === "online" && place === ONLINE_GROUP_NAME ? "" : place;
+  if (prefecture && !(prefecture in prefectureCoordinates)) return `不明な都道府県です: ${prefecture}`;
+  if (!prefecture && attendanceMode !== "online") return `不明な都道府県です: ${place}`;
+
+  const dates = parseDates(section.fields["開催日"] ?? "");
+  if (dates.length === 0) return "開催日を読み取れません";
+
+  const [date, lastDate] = [dates[0], dates[dates.length - 1]];
+  if (lastDate < date) return "終了日が開始日より前になっています";
+
+  return {
+    name: section.name,
+    prefecture,
+    date,
+    endDate: dates.length > 1 && lastDate.getTime() !== date.getTime() ? lastDate : null,
+    coordinates: parseCoordinates(section.fields["座標"], prefecture),
+    description: parseDescription(section.descriptionLines),
+    website: section.fields["Webサイト"] || null,
+    youtubePlaylist: section.fields["録画一覧"] || null,
+    venueName: section.fields["会場"] || null,
+    venueAddress: section.fields["会場住所"] || null,
+    attendanceMode,
+    tagNames: section.fields["タグ"] === undefined ? null : parseTagNames(section.fields["タグ"]),
+  };
+}
+
+// 開催形式の項目がなければ現地開催とみなす
+function parseAttendanceMode(value: string | undefined): AttendanceMode | null {
+  if (!value) return "onsite";
+  const entry = Object.entries(attendanceModeLabels).find(([, label]) => label === value);
+  return entry ? entry[0] as AttendanceMode : null;
+}
+
+// 「2025年03月15日(土)〜2025年03月16日(日)」のような表記から日本時間の日付を取り出す
+function parseDates(value: string): Date[] {
+  return Array.from(value.matchAll(DATE_PATTERN)).map(([, year, month, day]) =>
+    fromJSTDateParts(Number(year), Number(month), Number(day))
+  );
+}
+
+// 都道府県座標と同じ値はユーザー指定の座標として扱わない
+function parseCoordinates(value: string | undefined, prefecture: string): string | null {
+  if (!value) return null;
+
+  const match = value.match(/`\[\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\]`\s*(.*)$/);
+  if (!match) return null;
+
+  const [, lng, lat, label] = match;
+  if (label.includes("都道府県座標")) return null;
+
+  const prefCoords = prefectureCoordinates[prefecture];
+  if (prefCoords && prefCoords[0] === Number(lat) && prefCoords[1] === Number(lng)) {
+    return null;
+  }
+
+  return `${lat}, ${lng}`;
+}
+
+function parseDescription(lines: string[]): string | null {
+  const description = lines
+    .map(line => line.replace(/^ {2}/, "").replace(/\s+$/, ""))
+    .join("\n")
+    .trim();
+
+  return description || null;
+}
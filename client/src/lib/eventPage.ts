@@ -0,0 +1,11 @@
+import type { EventWithTags } from "@db/schema";
+
+// limit・cursor を指定したときの GET /api/events・GET /api/admin/events のレスポンス
+// （指定しなければイベントの配列を返す）
+export interface EventPage {
+  events: EventWithTags[];
+  // カーソル・件数の指定に関係なく、条件に一致した件数
+  total: number;
+  // 次のページがなければ null
+  nextCursor: string | null;
+}
@@ -0,0 +1,11 @@
+import type { Event, User } from "@db/schema";
+
+// イベントを編集・削除できるのは作成者と管理者のみ
+export function canModifyEvent(
+  user: Pick<User, "id" | "isAdmin"> | null | undefined,
+  event: Pick<Event, "createdBy">
+): boolean {
+  if (!user) return false;
+  if (user.isAdmin) return true;
+  return event.createdBy !== null && event.createdBy === Number(user.id);
+}
@@ -0,0 +1,30 @@
+import type { Event } from "@db/schema";
+import { prefectures, type Prefecture } from "./prefectures";
+
+export type Region = Prefecture["region"];
+
+export const regions: Region[] = Array.from(new Set(prefectures.map(p => p.region)));
+
+// 地方ごとの表示色（カレンダーなどの色分けに使う）
+export const regionColors: Record<Region, string> = {
+  北海道: "hsl(199 89% 48%)",
+  東北: "hsl(173 80% 36%)",
+  関東: "hsl(221 83% 53%)",
+  中部: "hsl(142 71% 40%)",
+  近畿: "hsl(0 72% 51%)",
+  中国: "hsl(25 95% 53%)",
+  四国: "hsl(45 93% 42%)",
+  九州: "hsl(271 76% 53%)",
+};
+
+// 都道府県が未設定（オンラインのみなど）のイベントの色
+export const NO_REGION_COLOR = "hsl(215 16% 47%)";
+
+export function getEventRegion(event: Pick<Event, "prefecture">): Region | null {
+  return prefectures.find(p => p.name === event.prefecture)?.region ?? null;
+}
+
+export function getEventRegionColor(event: Pick<Event, "prefecture">): string {
+  const region = getEventRegion(event);
+  return region ? regionColors[region] : NO_REGION_COLOR;
+}
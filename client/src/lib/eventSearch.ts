@@ -0,0 +1,39 @@
+import type { Event } from "@db/schema";
+import { prefectures } from "./prefectures";
+
+// 全角・半角（NFKC）と大文字・小文字をそろえ、カタカナをひらがなに寄せる
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+// 空白区切りの検索語に分ける（全角スペースも区切りとして扱う）
+export function tokenizeSearchQuery(query: string): string[] {
+  return normalizeSearchText(query)
+    .split(/\s+/)
+    .filter(token => token !== "");
+}
+
+// 検索に使う項目（サーバーでは必要な列だけを読み込んで使う）
+export type SearchableEvent = Pick<Event, "name" | "description" | "prefecture" | "website">;
+
+function getSearchableText(event: SearchableEvent): string {
+  // 都道府県はローマ字（prefectures の id）でも検索できるようにする
+  const prefectureId = prefectures.find(p => p.name === event.prefecture)?.id;
+  return normalizeSearchText(
+    [event.name, event.description, event.prefecture, prefectureId, event.website]
+      .filter(Boolean)
+      .join("\n")
+  );
+}
+
+// すべての検索語がイベント名・説明・開催地・Webサイトのいずれかに含まれれば一致とする
+export function matchesEventSearch(event: SearchableEvent, query: string): boolean {
+  const tokens = tokenizeSearchQuery(query);
+  if (tokens.length === 0) return true;
+
+  const text = getSearchableText(event);
+  return tokens.every(token => text.includes(token));
+}
@@ -0,0 +1,32 @@
+import type { Event, EventSeries } from "@db/schema";
+import { isUpcomingEvent } from "./eventDates";
+
+export interface EventSeriesSummary extends EventSeries {
+  editionCount: number;
+  latestEditionDate: string | null;
+}
+
+export interface EventSeriesWithEditions extends EventSeries {
+  editions: Event[];
+}
+
+// 同じシリーズで、指定したイベントより後に開催される最初の回を返す
+export function findNextEdition(event: Event, events: Event[]): Event | null {
+  if (!event.seriesId) return null;
+
+  const eventTime = new Date(event.date).getTime();
+  return events
+    .filter(candidate =>
+      candidate.seriesId === event.seriesId &&
+      candidate.id !== event.id &&
+      new Date(candidate.date).getTime() > eventTime
+    )
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())[0] ?? null;
+}
+
+// 終了済みのイベントに対してのみ、次回開催の予定を返す
+export function findUpcomingNextEdition(event: Event, events: Event[]): Event | null {
+  if (isUpcomingEvent(event)) return null;
+  const next = findNextEdition(event, events);
+  return next && isUpcomingEvent(next) ? next : null;
+}
@@ -0,0 +1,30 @@
+import type { Tag } from "@db/schema";
+
+interface TaggedEvent {
+  tags?: Tag[];
+}
+
+// クエリパラメータ（カンマ区切りまたは複数指定）からタグ名の一覧を取り出す
+export function parseTagNames(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  const names = values
+    .filter((item): item is string => typeof item === "string")
+    .flatMap(item => item.split(","))
+    .map(name => name.trim())
+    .filter(name => name !== "");
+  return Array.from(new Set(names));
+}
+
+// 指定したタグのいずれかが付いていれば true（タグ指定なしなら常に true）
+export function hasAnyTag(event: TaggedEvent, tagNames: string[]): boolean {
+  if (tagNames.length === 0) return true;
+  return (event.tags ?? []).some(tag => tagNames.includes(tag.name));
+}
+
+export function formatEventTags(event: TaggedEvent): string {
+  return (event.tags ?? []).map(tag => tag.name).join(", ");
+}
+
+export interface TagSummary extends Tag {
+  eventCount: number;
+}
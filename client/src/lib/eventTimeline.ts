@@ -0,0 +1,61 @@
+import type { Event } from "@db/schema";
+import { addMonths, differenceInCalendarMonths, startOfMonth, startOfYear, addYears } from "date-fns";
+import { getEventEndDate } from "./eventDates";
+
+type EventPeriod = Pick<Event, "date" | "endDate">;
+
+// 表示する期間。to は含まない（翌月の1日など）
+export interface TimelineRange {
+  from: Date;
+  to: Date;
+}
+
+export interface TimelineBounds {
+  start: Date;
+  // start から数えた月の数（最後の月を含む）
+  monthCount: number;
+}
+
+// 最も早いイベントの月から、最も遅いイベントの月までを返す
+export function getTimelineBounds(events: EventPeriod[]): TimelineBounds | null {
+  if (events.length === 0) return null;
+
+  const starts = events.map(event => new Date(event.date).getTime());
+  const ends = events.map(event => getEventEndDate(event).getTime());
+  const start = startOfMonth(new Date(Math.min(...starts)));
+  const end = startOfMonth(new Date(Math.max(...ends)));
+  return { start, monthCount: differenceInCalendarMonths(end, start) + 1 };
+}
+
+// スライダーの値（月の番号）と期間を相互に変換する
+export function toTimelineRange(bounds: TimelineBounds, [fromIndex, toIndex]: number[]): TimelineRange {
+  return {
+    from: addMonths(bounds.start, fromIndex),
+    to: addMonths(bounds.start, toIndex + 1),
+  };
+}
+
+export function toTimelineIndexes(bounds: TimelineBounds, range: TimelineRange): [number, number] {
+  const clamp = (value: number) => Math.min(Math.max(value, 0), bounds.monthCount - 1);
+  return [
+    clamp(differenceInCalendarMonths(range.from, bounds.start)),
+    clamp(differenceInCalendarMonths(range.to, bounds.start) - 1),
+  ];
+}
+
+// 期間と開催期間が1日でも重なるイベントを対象にする
+export function isEventInTimelineRange(event: EventPeriod, range: TimelineRange): boolean {
+  return getEventEndDate(event).getTime() >= range.from.getTime() &&
+    new Date(event.date).getTime() < range.to.getTime();
+}
+
+// 再生用に、最初の年から1年ずつ終わりを延ばしていく期間の列を返す
+export function getYearlyTimelineFrames(bounds: TimelineBounds): TimelineRange[] {
+  const end = addMonths(bounds.start, bounds.monthCount);
+  const frames: TimelineRange[] = [];
+  for (let to = addYears(startOfYear(bounds.start), 1); ; to = addYears(to, 1)) {
+    frames.push({ from: bounds.start, to: to < end ? to : end });
+    if (to >= end) break;
+  }
+  return frames;
+}
@@ -0,0 +1,32 @@
+import type { AttendanceMode, Event } from "@db/schema";
+
+export const ONLINE_GROUP_ID = "online";
+export const ONLINE_GROUP_NAME = "オンライン";
+
+export const attendanceModeLabels: Record<AttendanceMode, string> = {
+  onsite: "現地開催",
+  online: "オンライン",
+  hybrid: "ハイブリッド",
+};
+
+// オンラインのみのイベントは地図上にピンを立てない
+export function isOnlineOnlyEvent(event: Pick<Event, "attendanceMode">): boolean {
+  return event.attendanceMode === "online";
+}
+
+// 開催地の表示（オンラインのみで都道府県がなければ「オンライン」）
+export function formatEventPlace(event: Pick<Event, "prefecture" | "attendanceMode">): string {
+  if (!event.prefecture) {
+    return isOnlineOnlyEvent(event) ? ONLINE_GROUP_NAME : "";
+  }
+  return event.attendanceMode === "onsite"
+    ? event.prefecture
+    : `${event.prefecture}（${attendanceModeLabels[event.attendanceMode]}）`;
+}
+
+export function formatEventVenue(event: Pick<Event, "venueName" | "venueAddress">): string | null {
+  const venueName = event.venueName?.trim();
+  const venueAddress = event.venueAddress?.trim();
+  if (venueName && venueAddress) return `${venueName}（${venueAddress}）`;
+  return venueName || venueAddress || null;
+}
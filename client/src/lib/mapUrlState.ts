@@ -0,0 +1,116 @@
+import { addMonths, format, isValid, parse, subMonths } from "date-fns";
+import { parseTagNames } from "./eventTags";
+import type { TimelineRange } from "./eventTimeline";
+import { prefectures } from "./prefectures";
+import { ONLINE_GROUP_ID } from "./eventVenue";
+import { statsMetrics, type StatsMetric } from "./prefectureStats";
+
+export type DisplayPeriod = "past" | "upcoming";
+
+// 地図ページの表示状態。クエリ文字列に載せて共有・再読み込み・戻るに対応する
+export interface MapUrlState {
+  // 都道府県の id（オンラインのみは ONLINE_GROUP_ID）
+  prefecture: string | null;
+  period: DisplayPeriod;
+  // タイムラインで指定した期間（period より優先する）
+  timelineRange: TimelineRange | null;
+  tagNames: string[];
+  searchQuery: string;
+  eventId: number | null;
+  center: [number, number] | null;
+  zoom: number | null;
+  // 都道府県を統計で色分けする場合の統計の種類
+  statsMetric: StatsMetric | null;
+}
+
+// 日本全体が収まる表示位置
+export const DEFAULT_MAP_CENTER: [number, number] = [36.5, 138];
+export const DEFAULT_MAP_ZOOM = 5;
+
+export const DEFAULT_MAP_URL_STATE: MapUrlState = {
+  prefecture: null,
+  period: "upcoming",
+  timelineRange: null,
+  tagNames: [],
+  searchQuery: "",
+  eventId: null,
+  center: null,
+  zoom: null,
+  statsMetric: null,
+};
+
+const MONTH_FORMAT = "yyyy-MM";
+
+function parseMonth(value: string | null): Date | null {
+  if (!value) return null;
+  const date = parse(value, MONTH_FORMAT, new Date());
+  return isValid(date) ? date : null;
+}
+
+// from / to はどちらも含む月（例: from=2024-01&to=2024-12）
+function parseTimelineRange(params: URLSearchParams): TimelineRange | null {
+  const from = parseMonth(params.get("from"));
+  const to = parseMonth(params.get("to"));
+  if (!from || !to || to < from) return null;
+  return { from, to: addMonths(to, 1) };
+}
+
+function parseCenter(value: string | null): [number, number] | null {
+  if (!value) return null;
+  const [lat, lng] = value.split(",").map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return [lat, lng];
+}
+
+function parsePrefecture(value: string | null): string | null {
+  if (!value) return null;
+  if (value === ONLINE_GROUP_ID) return value;
+  return prefectures.some(p => p.id === value) ? value : null;
+}
+
+// 不正な値は無視して既定値にする（古いリンクや手入力でも開けるように）
+export function parseMapUrlState(search: string): MapUrlState {
+  const params = new URLSearchParams(search);
+  const eventId = Number(params.get("event"));
+  const zoom = Number(params.get("zoom"));
+  const statsMetric = params.get("stats");
+
+  return {
+    prefecture: parsePrefecture(params.get("pref")),
+    period: params.get("period") === "past" ? "past" : "upcoming",
+    timelineRange: parseTimelineRange(params),
+    tagNames: parseTagNames(params.get("tags")),
+    searchQuery: params.get("q") ?? "",
+    eventId: Number.isInteger(eventId) && eventId > 0 ? eventId : null,
+    center: parseCenter(params.get("center")),
+    zoom: params.has("zoom") && Number.isInteger(zoom) && zoom >= 0 ? zoom : null,
+    statsMetric: statsMetrics.find(metric => metric === statsMetric) ?? null,
+  };
+}
+
+// 既定値の項目は省いて、短いクエリ文字列にする
+export function serializeMapUrlState(state: MapUrlState): string {
+  const params = new URLSearchParams();
+  if (state.prefecture) params.set("pref", state.prefecture);
+  if (state.period !== DEFAULT_MAP_URL_STATE.period) params.set("period", state.period);
+  if (state.timelineRange) {
+    params.set("from", format(state.timelineRange.from, MONTH_FORMAT));
+    params.set("to", format(subMonths(state.timelineRange.to, 1), MONTH_FORMAT));
+  }
+  if (state.tagNames.length > 0) params.set("tags", state.tagNames.join(","));
+  if (state.searchQuery) params.set("q", state.searchQuery);
+  if (state.eventId) params.set("event", String(state.eventId));
+  if (state.center) {
+    const center = state.center.map(value => value.toFixed(4)).join(",");
+    if (center !== DEFAULT_MAP_CENTER.map(value => value.toFixed(4)).join(",")) params.set("center", center);
+  }
+  if (state.zoom !== null && state.zoom !== DEFAULT_MAP_ZOOM) params.set("zoom", String(state.zoom));
+  if (state.statsMetric) params.set("stats", state.statsMetric);
+  // 共有しやすいよう、クエリ文字列で使えるカンマはそのまま残す
+  return params.toString().replace(/%2C/g, ",");
+}
+
+export function hasMapUrlState(search: string): boolean {
+  return serializeMapUrlState(parseMapUrlState(search)) !== "";
+}
@@ -0,0 +1,68 @@
+import { feature } from "topojson-client";
+import type { GeometryCollection, Topology } from "topojson-specification";
+import { prefectures } from "./prefectures";
+
+export interface PrefectureFeature {
+  type: "Feature";
+  properties: {
+    id: string;
+    name: string;
+    region: string;
+  };
+  geometry: {
+    type: "Polygon";
+    coordinates: number[][][];
+  } | {
+    // 離島のある都道府県
+    type: "MultiPolygon";
+    coordinates: number[][][][];
+  };
+}
+
+export interface PrefectureFeatureCollection {
+  type: "FeatureCollection";
+  features: PrefectureFeature[];
+}
+
+// 地図の拡大率に応じて使い分ける簡略化の度合い（粗いほどファイルが小さい）
+export type BoundaryLevel = "low" | "medium" | "high";
+
+// minZoom 以上の拡大率で使う。大きい順に並べておく
+const boundaryLevels: { level: BoundaryLevel; minZoom: number }[] = [
+  { level: "high", minZoom: 9 },
+  { level: "medium", minZoom: 7 },
+  { level: "low", minZoom: 0 },
+];
+
+// TopoJSON 内の都道府県のオブジェクト名
+export const PREFECTURE_OBJECT_NAME = "prefectures";
+
+export function getBoundaryLevel(zoom: number): BoundaryLevel {
+  return boundaryLevels.find(({ minZoom }) => zoom >= minZoom)?.level ?? "low";
+}
+
+// client/public/geo に置いた TopoJSON の URL
+export function getBoundaryUrl(level: BoundaryLevel): string {
+  return `/geo/prefectures-${level}.topojson`;
+}
+
+// TopoJSON を GeoJSON に変換し、prefectures[].id をキーにした属性を付け直す。
+// 都道府県の id はジオメトリの id か properties.id のどちらかに入れておく
+export function toPrefectureGeoJSON(topology: Topology): PrefectureFeatureCollection {
+  const object = topology.objects[PREFECTURE_OBJECT_NAME] as GeometryCollection<{ id?: string }> | undefined;
+  if (!object) {
+    throw new Error(`TopoJSON に ${PREFECTURE_OBJECT_NAME} がありません`);
+  }
+
+  const features = feature(topology, object).features.flatMap(item => {
+    const id = String(item.id ?? item.properties?.id ?? "");
+    const prefecture = prefectures.find(p => p.id === id);
+    if (!prefecture) return [];
+    return [{
+      type: "Feature",
+      properties: { id: prefecture.id, name: prefecture.name, region: prefecture.region },
+      geometry: item.geometry,
+    } as PrefectureFeature];
+  });
+  return { type: "FeatureCollection", features };
+}
@@ -1,50 +0,0 @@
-// 各都道府県のSVGパスデータ
-export const prefecturePaths: Record<string, string> = {
-  hokkaido: "M 650 50 L 720 70 L 750 130 L 730 180 L 680 200 L 630 190 L 600 150 L 590 100 L 610 70 Z",
-  aomori: "M 600 250 L 650 240 L 670 260 L 660 290 L 630 300 L 600 290 L 580 270 Z",
-  iwate: "M 620 310 L 650 300 L 670 320 L 660 350 L 630 360 L 610 350 L 600 330 Z",
-  miyagi: "M 610 370 L 640 360 L 650 380 L 640 400 L 620 410 L 600 400 L 590 380 Z",
-  akita: "M 570 310 L 600 300 L 620 320 L 610 350 L 580 360 L 560 350 L 550 330 Z",
-  yamagata: "M 570 370 L 590 360 L 610 380 L 600 410 L 570 420 L 550 410 L 540 390 Z",
-  fukushima: "M 580 430 L 610 420 L 630 440 L 620 470 L 590 480 L 570 470 L 560 450 Z",
-  ibaraki: "M 590 490 L 620 480 L 640 500 L 630 530 L 600 540 L 580 530 L 570 510 Z",
-  tochigi: "M 570 460 L 590 450 L 610 470 L 600 500 L 580 510 L 560 500 L 550 480 Z",
-  gunma: "M 530 470 L 560 460 L 580 480 L 570 510 L 540 520 L 520 510 L 510 490 Z",
-  saitama: "M 540 520 L 570 510 L 590 530 L 580 560 L 550 570 L 530 560 L 520 540 Z",
-  chiba: "M 600 540 L 630 530 L 650 550 L 640 590 L 620 610 L 590 600 L 580 570 Z",
-  tokyo: "M 550 550 L 580 540 L 600 560 L 590 590 L 570 600 L 550 590 L 540 570 Z",
-  kanagawa: "M 540 590 L 570 580 L 590 600 L 580 630 L 560 640 L 540 630 L 530 610 Z",
-  niigata: "M 510 400 L 540 390 L 570 410 L 560 450 L 530 460 L 500 450 L 490 420 Z",
-  toyama: "M 460 450 L 490 440 L 510 460 L 500 490 L 470 500 L 450 490 L 440 470 Z",
-  ishikawa: "M 420 440 L 450 430 L 470 450 L 460 490 L 440 510 L 410 500 L 400 470 Z",
-  fukui: "M 400 480 L 430 470 L 450 490 L 440 520 L 420 530 L 390 520 L 380 500 Z",
-  yamanashi: "M 510 530 L 540 520 L 560 540 L 550 570 L 530 580 L 510 570 L 500 550 Z",
-  nagano: "M 480 480 L 510 470 L 540 490 L 530 530 L 500 540 L 470 530 L 460 500 Z",
-  gifu: "M 450 510 L 480 500 L 500 520 L 490 550 L 470 560 L 440 550 L 430 530 Z",
-  shizuoka: "M 510 580 L 540 570 L 560 590 L 550 630 L 530 640 L 500 630 L 490 600 Z",
-  aichi: "M 470 570 L 500 560 L 520 580 L 510 610 L 490 620 L 460 610 L 450 590 Z",
-  mie: "M 450 600 L 480 590 L 500 610 L 490 640 L 470 650 L 440 640 L 430 620 Z",
-  shiga: "M 420 560 L 450 550 L 470 570 L 460 600 L 440 610 L 410 600 L 400 580 Z",
-  kyoto: "M 390 570 L 420 560 L 440 580 L 430 610 L 410 620 L 380 610 L 370 590 Z",
-  osaka: "M 400 610 L 430 600 L 450 620 L 440 650 L 420 660 L 390 650 L 380 630 Z",
-  hyogo: "M 360 590 L 390 580 L 410 600 L 400 630 L 380 640 L 350 630 L 340 610 Z",
-  nara: "M 420 630 L 450 620 L 470 640 L 460 670 L 440 680 L 410 670 L 400 650 Z",
-  wakayama: "M 400 670 L 430 660 L 450 680 L 440 710 L 420 720 L 390 710 L 380 690 Z",
-  tottori: "M 320 600 L 350 590 L 370 610 L 360 640 L 340 650 L 310 640 L 300 620 Z",
-  shimane: "M 280 620 L 310 610 L 330 630 L 320 660 L 300 670 L 270 660 L 260 640 Z",
-  okayama: "M 340 630 L 370 620 L 390 640 L 380 670 L 360 680 L 330 670 L 320 650 Z",
-  hiroshima: "M 300 650 L 330 640 L 350 660 L 340 690 L 320 700 L 290 690 L 280 670 Z",
-  yamaguchi: "M 240 670 L 270 660 L 290 680 L 280 710 L 260 720 L 230 710 L 220 690 Z",
-  tokushima: "M 390 730 L 420 720 L 440 740 L 430 770 L 410 780 L 380 770 L 370 750 Z",
-  kagawa: "M 360 700 L 390 690 L 410 710 L 400 740 L 380 750 L 350 740 L 340 720 Z",
-  ehime: "M 320 730 L 350 720 L 370 740 L 360 770 L 340 780 L 310 770 L 300 750 Z",
-  kochi: "M 330 780 L 360 770 L 380 790 L 370 820 L 350 830 L 320 820 L 310 800 Z",
-  fukuoka: "M 200 700 L 230 690 L 250 710 L 240 740 L 220 750 L 190 740 L 180 720 Z",
-  saga: "M 170 710 L 200 700 L 220 720 L 210 750 L 190 760 L 160 750 L 150 730 Z",
-  nagasaki: "M 140 740 L 170 730 L 190 750 L 180 780 L 160 790 L 130 780 L 120 760 Z",
-  kumamoto: "M 190 760 L 220 750 L 240 770 L 230 800 L 210 810 L 180 800 L 170 780 Z",
-  oita: "M 230 730 L 260 720 L 280 740 L 270 770 L 250 780 L 220 770 L 210 750 Z",
-  miyazaki: "M 220 790 L 250 780 L 270 800 L 260 830 L 240 840 L 210 830 L 200 810 Z",
-  kagoshima: "M 200 830 L 230 820 L 250 840 L 240 870 L 220 880 L 190 870 L 180 850 Z",
-  okinawa: "M 150 1000 L 180 990 L 200 1010 L 190 1040 L 170 1050 L 140 1040 L 130 1020 Z"
-};
@@ -0,0 +1,101 @@
+import type { Event } from "@db/schema";
+import { differenceInYears } from "date-fns";
+import { getEventEndDate, isUpcomingEvent } from "./eventDates";
+import { prefectures } from "./prefectures";
+
+// 地図の都道府県を色分けする統計の種類
+export type StatsMetric = "eventCount" | "seriesCount" | "yearsSinceLast";
+
+export const statsMetrics: StatsMetric[] = ["eventCount", "seriesCount", "yearsSinceLast"];
+
+export const statsMetricLabels: Record<StatsMetric, string> = {
+  eventCount: "イベント数",
+  seriesCount: "シリーズ数",
+  yearsSinceLast: "最後の開催からの年数",
+};
+
+export interface PrefectureStats {
+  eventCount: number;
+  // シリーズに属するイベントはシリーズ単位、属さないイベントは1件ずつ数える
+  seriesCount: number;
+  lastEvent: Pick<Event, "date" | "endDate"> | null;
+  // 開催予定があれば 0。一度も開催されていなければ null
+  yearsSinceLast: number | null;
+}
+
+type StatsEvent = Pick<Event, "id" | "prefecture" | "date" | "endDate" | "seriesId">;
+
+// 都道府県の id ごとの統計（イベントのない都道府県も含む）
+export function computePrefectureStats(events: StatsEvent[], now: Date = new Date()): Map<string, PrefectureStats> {
+  const stats = new Map<string, PrefectureStats>();
+
+  for (const prefecture of prefectures) {
+    const prefectureEvents = events.filter(event => event.prefecture === prefecture.name);
+    const seriesKeys = new Set(prefectureEvents.map(event => event.seriesId ? `series-${event.seriesId}` : `event-${event.id}`));
+    const lastEvent = prefectureEvents.reduce<StatsEvent | null>(
+      (latest, event) => !latest || new Date(event.date) > new Date(latest.date) ? event : latest,
+      null
+    );
+
+    stats.set(prefecture.id, {
+      eventCount: prefectureEvents.length,
+      seriesCount: seriesKeys.size,
+      lastEvent,
+      yearsSinceLast: lastEvent
+        ? isUpcomingEvent(lastEvent, now) ? 0 : differenceInYears(now, getEventEndDate(lastEvent))
+        : null,
+    });
+  }
+  return stats;
+}
+
+export interface StatsLegendItem {
+  label: string;
+  color: string;
+  // 値の範囲（両端を含む）。null は「値なし」（未開催）
+  min: number | null;
+  max: number | null;
+}
+
+const countColors = [
+  "hsl(210 40% 96.1%)",
+  "hsl(214 60% 82%)",
+  "hsl(218 55% 65%)",
+  "hsl(222 50% 48%)",
+  "hsl(222.2 47.4% 30%)",
+];
+
+// 開催から時間が経っている都道府県ほど濃くする
+const yearsLegend: StatsLegendItem[] = [
+  { label: "1年以内・予定あり", color: "hsl(142 50% 80%)", min: 0, max: 0 },
+  { label: "1年", color: "hsl(45 90% 75%)", min: 1, max: 1 },
+  { label: "2〜3年", color: "hsl(30 90% 62%)", min: 2, max: 3 },
+  { label: "4年以上", color: "hsl(15 80% 48%)", min: 4, max: Infinity },
+  { label: "未開催", color: "hsl(215 16% 75%)", min: null, max: null },
+];
+
+function formatCountRange(min: number, max: number, unit: string): string {
+  return min === max ? `${min}${unit}` : `${min}〜${max}${unit}`;
+}
+
+// 件数は最大値を4段階に分けて凡例を作る
+export function getStatsLegend(metric: StatsMetric, stats: Map<string, PrefectureStats>): StatsLegendItem[] {
+  if (metric === "yearsSinceLast") return yearsLegend;
+
+  const unit = metric === "eventCount" ? "件" : "シリーズ";
+  const max = Math.max(0, ...Array.from(stats.values(), item => item[metric]));
+  const legend: StatsLegendItem[] = [{ label: `0${unit}`, color: countColors[0], min: 0, max: 0 }];
+  const step = Math.ceil(max / (countColors.length - 1));
+  for (let index = 1, min = 1; min <= max; index++, min += step) {
+    const rangeMax = Math.min(min + step - 1, max);
+    legend.push({ label: formatCountRange(min, rangeMax, unit), color: countColors[index], min, max: rangeMax });
+  }
+  return legend;
+}
+
+export function getStatsColor(value: number | null, legend: StatsLegendItem[]): string {
+  const item = legend.find(({ min, max }) =>
+    value === null ? min === null : min !== null && max !== null && value >= min && value <= max
+  );
+  return item?.color ?? countColors[0];
+}
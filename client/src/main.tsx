@@ -13,6 +13,10 @@ import * as React from "react";
 const AdminPage = React.lazy(() => import('./pages/AdminPage'));
 const MyEventsPage = React.lazy(() => import('./pages/MyEventsPage'));
 const EventHistoryPage = React.lazy(() => import('./pages/EventHistoryPage'));
+const EventDetailPage = React.lazy(() => import('./pages/EventDetailPage'));
+const SeriesPage = React.lazy(() => import('./pages/SeriesPage'));
+const CalendarPage = React.lazy(() => import('./pages/CalendarPage'));
+const EmbedPage = React.lazy(() => import('./pages/EmbedPage'));
 
 function Router() {
   return (
@@ -33,6 +37,13 @@ function Router() {
           </React.Suspense>
         )}
       </Route>
+      <Route path="/events/:eventId">
+        {() => (
+          <React.Suspense fallback={<LoadingSpinner />}>
+            <EventDetailPage />
+          </React.Suspense>
+        )}
+      </Route>
       <Route path="/events/:eventId/history">
         {() => (
           <React.Suspense fallback={<LoadingSpinner />}>
@@ -40,6 +51,27 @@ function Router() {
           </React.Suspense>
         )}
       </Route>
+      <Route path="/calendar">
+        {() => (
+          <React.Suspense fallback={<LoadingSpinner />}>
+            <CalendarPage />
+          </React.Suspense>
+        )}
+      </Route>
+      <Route path="/series/:seriesId">
+        {() => (
+          <React.Suspense fallback={<LoadingSpinner />}>
+            <SeriesPage />
+          </React.Suspense>
+        )}
+      </Route>
+      <Route path="/embed">
+        {() => (
+          <React.Suspense fallback={<LoadingSpinner />}>
+            <EmbedPage />
+          </React.Suspense>
+        )}
+      </Route>
       <Route>404 Page Not Found</Route>
     </Switch>
   );
@@ -1,8 +1,9 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useUser } from "@/hooks/use-user";
 import { useLocation } from "wouter";
-import type { Event, User } from "@db/schema";
+import type { EventWithTags, User } from "@db/schema";
+import type { EventPage } from "@/lib/eventPage";
 import {
   Card,
   CardContent,
@@ -11,6 +12,7 @@ import {
   CardDescription,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import {
   Table,
   TableBody,
@@ -19,12 +21,18 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Loader2, Download, Trash2 } from "lucide-react";
+import { Loader2, Download, Trash2, FileSpreadsheet, ChevronLeft, ChevronRight } from "lucide-react";
 import { generateEventMarkdown, downloadMarkdown } from "@/lib/eventMarkdown";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { ja } from "date-fns/locale";
 import SyncDebugPanel from "@/components/SyncDebugPanel";
+import EventImportPanel from "@/components/EventImportPanel";
+import CsvImportPanel from "@/components/CsvImportPanel";
+import { SyncTargetSettings } from "@/components/SyncTargetSettings";
+import { SeriesSettings } from "@/components/SeriesSettings";
+import { TagSettings } from "@/components/TagSettings";
+import { formatEventPlace } from "@/lib/eventVenue";
 
 async function fetchAllUsers(): Promise<User[]> {
   try {
@@ -59,9 +67,13 @@ async function fetchAllUsers(): Promise<User[]> {
   }
 }
 
-async function fetchAllEvents(): Promise<Event[]> {
+const EVENTS_PER_PAGE = 50;
+
+async function fetchEventPage(cursor: string | null): Promise<EventPage> {
   try {
-    const response = await fetch("/api/admin/events", {
+    const params = new URLSearchParams({ limit: String(EVENTS_PER_PAGE) });
+    if (cursor) params.set("cursor", cursor);
+    const response = await fetch(`/api/admin/events?${params}`, {
       credentials: "include",
     });
     if (!response.ok) {
@@ -74,11 +86,25 @@ async function fetchAllEvents(): Promise<Event[]> {
   }
 }
 
+// マークダウン出力用にアーカイブ済みを除く全件を取得する
+async function fetchAllActiveEvents(): Promise<EventWithTags[]> {
+  const response = await fetch("/api/admin/events?archived=false", {
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error("イベントの取得に失敗しました");
+  }
+  return response.json();
+}
+
 export default function AdminPage() {
   const { user } = useUser();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  // 表示中のページまでのカーソル（先頭ページは null）
+  const [cursorStack, setCursorStack] = useState<(string | null)[]>([null]);
+  const currentCursor = cursorStack[cursorStack.length - 1];
 
   // ユーザーの認証状態確認
   useEffect(() => {
@@ -170,11 +196,8 @@ export default function AdminPage() {
 
       return response.json();
     },
-    onSuccess: (_, deletedEventId) => {
-      queryClient.setQueryData<Event[]>(["admin", "events"], (oldEvents) => {
-        if (!oldEvents) return [];
-        return oldEvents.filter((event) => event.id !== deletedEventId);
-      });
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin", "events"] });
       queryClient.invalidateQueries({ queryKey: ["events"] });
       toast({
         title: "削除完了",
@@ -199,14 +222,16 @@ export default function AdminPage() {
     refetchOnWindowFocus: true
   });
 
-  const { data: events = [], isLoading: isLoadingEvents, error: eventsError } = useQuery({
-    queryKey: ["admin", "events"],
-    queryFn: fetchAllEvents,
+  const { data: eventPage, isLoading: isLoadingEvents, error: eventsError } = useQuery({
+    queryKey: ["admin", "events", currentCursor],
+    queryFn: () => fetchEventPage(currentCursor),
     enabled: !!user?.isAdmin,
     retry: false,
     refetchOnWindowFocus: true
   });
 
+  const events = eventPage?.events ?? [];
+
   console.log('Admin page data:', { 
     usersCount: users.length, 
     eventsCount: events.length,
@@ -228,6 +253,8 @@ export default function AdminPage() {
       <header className="flex justify-between items-center">
         <h1 className="text-3xl font-bold">管理者ダッシュボード</h1>
         <div className="flex items-center gap-4">
+          <EventImportPanel />
+          <CsvImportPanel />
           <SyncDebugPanel />
           <Button variant="outline" onClick={() => setLocation("/")}>
             ホームへ戻る
@@ -384,19 +411,37 @@ export default function AdminPage() {
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <div>
               <CardTitle>イベント管理</CardTitle>
-              <CardDescription>登録済みイベント一覧</CardDescription>
+              <CardDescription>
+                登録済みイベント一覧{eventPage && `（全${eventPage.total}件）`}
+              </CardDescription>
             </div>
             {events.length > 0 && (
-              <Button
-                variant="outline"
-                onClick={() => {
-                  const markdown = generateEventMarkdown(events);
-                  downloadMarkdown(markdown, `all-events-${format(new Date(), "yyyyMMdd-HHmm")}.md`);
-                }}
-              >
-                <Download className="h-4 w-4 mr-2" />
-                マークダウンでダウンロード
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" asChild>
+                  <a href="/api/admin/events/export.csv">
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    CSVでエクスポート
+                  </a>
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={async () => {
+                    try {
+                      const markdown = generateEventMarkdown(await fetchAllActiveEvents());
+                      downloadMarkdown(markdown, `all-events-${format(new Date(), "yyyyMMdd-HHmm")}.md`);
+                    } catch (error) {
+                      toast({
+                        variant: "destructive",
+                        title: "エラー",
+                        description: error instanceof Error ? error.message : "マークダウンの生成に失敗しました。",
+                      });
+                    }
+                  }}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  マークダウンでダウンロード
+                </Button>
+              </div>
             )}
           </CardHeader>
           <CardContent>
@@ -421,7 +466,7 @@ export default function AdminPage() {
                     <TableRow key={event.id}>
                       <TableCell>{event.id}</TableCell>
                       <TableCell>{event.name}</TableCell>
-                      <TableCell>{event.prefecture}</TableCell>
+                      <TableCell>{formatEventPlace(event)}</TableCell>
                       <TableCell>
                         {format(new Date(event.date), "yyyy年M月d日", { locale: ja })}
                       </TableCell>
@@ -429,27 +474,63 @@ export default function AdminPage() {
                         {users.find(u => u.id === event.createdBy)?.username || event.createdBy}
                       </TableCell>
                       <TableCell>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          className="hover:bg-destructive/90 transition-colors"
-                          onClick={() => {
-                            if (confirm("このイベントを削除してもよろしいですか？\nこの操作は取り消すことができません。")) {
-                              deleteEventMutation.mutate(event.id);
-                            }
-                          }}
-                        >
-                          <Trash2 className="h-4 w-4 mr-2" />
-                          削除
-                        </Button>
+                        {event.isArchived ? (
+                          <Badge variant="secondary">アーカイブ済み</Badge>
+                        ) : (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            className="hover:bg-destructive/90 transition-colors"
+                            onClick={() => {
+                              if (confirm("このイベントを削除してもよろしいですか？\n編集履歴を残すため、アーカイブ済みとして保管されます。")) {
+                                deleteEventMutation.mutate(event.id);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            削除
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
             )}
+            {(cursorStack.length > 1 || eventPage?.nextCursor) && (
+              <div className="flex items-center justify-end gap-2 pt-4">
+                <span className="text-sm text-muted-foreground">{cursorStack.length}ページ目</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={cursorStack.length <= 1}
+                  onClick={() => setCursorStack(stack => stack.slice(0, -1))}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  前へ
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!eventPage?.nextCursor}
+                  onClick={() => {
+                    const nextCursor = eventPage?.nextCursor;
+                    if (nextCursor) setCursorStack(stack => [...stack, nextCursor]);
+                  }}
+                >
+                  次へ
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
+
+        <SeriesSettings />
+
+        <TagSettings />
+
+        <SyncTargetSettings />
       </div>
     </div>
   );
@@ -0,0 +1,185 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import type { DayProps } from "react-day-picker";
+import {
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  isValid,
+  parse,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ja } from "date-fns/locale";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getEventEndDate } from "@/lib/eventDates";
+import { regions, regionColors, getEventRegionColor, NO_REGION_COLOR } from "@/lib/eventRegions";
+import type { EventWithTags } from "@db/schema";
+
+const DAY_KEY = "yyyy-MM-dd";
+
+// URL の ?month=2025-03 を表示月として読み取る（不正な値なら今月）
+function parseMonthParam(search: string): Date {
+  const value = new URLSearchParams(search).get("month");
+  const month = value ? parse(value, "yyyy-MM", new Date()) : new Date();
+  return startOfMonth(isValid(month) ? month : new Date());
+}
+
+async function fetchMonthEvents(month: Date): Promise<EventWithTags[]> {
+  // 前後の月にはみ出して表示される日も含めて取得する
+  const params = new URLSearchParams({
+    from: format(startOfWeek(startOfMonth(month)), DAY_KEY),
+    to: format(endOfWeek(endOfMonth(month)), DAY_KEY),
+    sort: "date",
+    order: "asc",
+  });
+  const response = await fetch(`/api/events?${params}`);
+  if (!response.ok) {
+    throw new Error("イベントの取得に失敗しました");
+  }
+  return response.json();
+}
+
+interface DayEvent {
+  event: EventWithTags;
+  isStart: boolean;
+  isEnd: boolean;
+}
+
+// 日付ごとに、その日に開催中のイベントをまとめる
+function groupEventsByDay(events: EventWithTags[]): Map<string, DayEvent[]> {
+  const days = new Map<string, DayEvent[]>();
+
+  for (const event of events) {
+    const start = new Date(event.date);
+    const end = getEventEndDate(event);
+    const startKey = format(start, DAY_KEY);
+    const endKey = format(end, DAY_KEY);
+
+    for (const day = new Date(start); format(day, DAY_KEY) <= endKey; day.setDate(day.getDate() + 1)) {
+      const key = format(day, DAY_KEY);
+      days.set(key, [
+        ...(days.get(key) ?? []),
+        { event, isStart: key === startKey, isEnd: key === endKey },
+      ]);
+    }
+  }
+
+  return days;
+}
+
+export default function CalendarPage() {
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+  const month = parseMonthParam(search);
+  const monthKey = format(month, "yyyy-MM");
+
+  const { data: events = [], isLoading, error } = useQuery({
+    queryKey: ["events", "calendar", monthKey],
+    queryFn: () => fetchMonthEvents(month),
+  });
+
+  const eventsByDay = useMemo(() => groupEventsByDay(events), [events]);
+
+  const CalendarDay = useMemo(() => {
+    return function CalendarDay({ date, displayMonth }: DayProps) {
+      const dayEvents = eventsByDay.get(format(date, DAY_KEY)) ?? [];
+      // 週の初め（日曜）は複数日開催の途中でもイベント名を表示する
+      const isWeekStart = date.getDay() === 0;
+
+      return (
+        <div className={cn("flex flex-col gap-1", !isSameMonth(date, displayMonth) && "opacity-50")}>
+          <span
+            className={cn(
+              "text-xs w-6 h-6 flex items-center justify-center rounded-full",
+              isToday(date) && "bg-primary text-primary-foreground"
+            )}
+          >
+            {date.getDate()}
+          </span>
+          {dayEvents.map(({ event, isStart, isEnd }) => (
+            <button
+              key={event.id}
+              type="button"
+              title={event.name}
+              onClick={() => setLocation(`/?event=${event.id}`)}
+              className={cn(
+                "text-left text-xs text-white px-1 py-0.5 truncate hover:opacity-80",
+                isStart ? "rounded-l" : "-ml-1",
+                isEnd ? "rounded-r" : "-mr-1"
+              )}
+              style={{ backgroundColor: getEventRegionColor(event) }}
+            >
+              {isStart || isWeekStart ? event.name : " "}
+            </button>
+          ))}
+        </div>
+      );
+    };
+  }, [eventsByDay, setLocation]);
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <header className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">イベントカレンダー</h1>
+        <Button variant="outline" onClick={() => setLocation("/")}>
+          地図へ戻る
+        </Button>
+      </header>
+
+      <div className="flex flex-wrap gap-3 text-sm">
+        {regions.map((region) => (
+          <span key={region} className="flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: regionColors[region] }} />
+            {region}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: NO_REGION_COLOR }} />
+          オンライン
+        </span>
+      </div>
+
+      <Card>
+        <CardContent className="p-2 sm:p-4 relative">
+          {isLoading && (
+            <div className="absolute right-4 top-4">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          )}
+          {error && (
+            <p className="text-center text-sm text-destructive py-2">
+              {error instanceof Error ? error.message : "イベントの取得に失敗しました"}
+            </p>
+          )}
+          <Calendar
+            month={month}
+            onMonthChange={(value) => setLocation(`/calendar?month=${format(value, "yyyy-MM")}`)}
+            formatters={{ formatCaption: (value) => format(value, "yyyy年M月", { locale: ja }) }}
+            className="p-0"
+            classNames={{
+              months: "w-full",
+              month: "w-full space-y-4",
+              caption_label: "text-lg font-semibold",
+              nav_button_previous: "absolute left-0",
+              nav_button_next: "absolute right-0",
+              table: "w-full border-collapse",
+              head_row: "flex w-full",
+              head_cell: "flex-1 text-muted-foreground font-normal text-sm py-1",
+              row: "flex w-full",
+              cell: "flex-1 min-w-0 min-h-[6.5rem] border p-1 text-left align-top",
+            }}
+            components={{ Day: CalendarDay }}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
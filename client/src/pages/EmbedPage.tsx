@@ -0,0 +1,93 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useSearch } from "wouter";
+import { JapanMap } from "@/components/JapanMap";
+import {
+  EMBED_RESIZE_MESSAGE,
+  filterEmbedEvents,
+  getRegionCenter,
+  parseEmbedOptions,
+} from "@/lib/embedOptions";
+import { DEFAULT_MAP_URL_STATE, serializeMapUrlState } from "@/lib/mapUrlState";
+import type { EventWithTags } from "@db/schema";
+
+// 地方を指定したときの拡大率
+const REGION_ZOOM = 7;
+
+async function fetchEvents(): Promise<EventWithTags[]> {
+  const response = await fetch("/api/events");
+  if (!response.ok) {
+    throw new Error("Failed to fetch events");
+  }
+  return response.json();
+}
+
+// 他のサイトに iframe で埋め込むための地図だけのページ（編集やユーザーメニューは出さない）
+export default function EmbedPage() {
+  const search = useSearch();
+  const options = useMemo(() => parseEmbedOptions(search), [search]);
+  const [selectedPrefecture, setSelectedPrefecture] = useState<string | null>(null);
+  const [selectedEventId, setSelectedEventId] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const { data: events = [] } = useQuery({
+    queryKey: ["events"],
+    queryFn: fetchEvents,
+  });
+  const embedEvents = useMemo(() => filterEmbedEvents(events, options), [events, options]);
+
+  const center = options.region ? getRegionCenter(options.region) : null;
+  const zoom = options.region ? REGION_ZOOM : null;
+
+  useEffect(() => {
+    document.documentElement.classList.toggle("dark", options.theme === "dark");
+  }, [options.theme]);
+
+  // 埋め込み先のページ（embed.js）へ高さを伝え、iframe の高さを合わせてもらう
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || window.parent === window) return;
+    const observer = new ResizeObserver(() => {
+      window.parent.postMessage({ type: EMBED_RESIZE_MESSAGE, height: container.offsetHeight }, "*");
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // 同じ条件の地図をスクラムフェスマップ本体で開くリンク
+  const fullMapQuery = serializeMapUrlState({
+    ...DEFAULT_MAP_URL_STATE,
+    period: options.period === "past" ? "past" : "upcoming",
+    center,
+    zoom,
+  });
+
+  return (
+    <div ref={containerRef} className="p-2 space-y-2">
+      <JapanMap
+        embedded
+        events={embedEvents}
+        allEvents={events}
+        selectedPrefecture={selectedPrefecture}
+        selectedEventId={selectedEventId}
+        center={center}
+        zoom={zoom}
+        height={options.height}
+        highlightedSeriesId={options.seriesId}
+        onPrefectureSelect={setSelectedPrefecture}
+        onEventSelect={setSelectedEventId}
+      />
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{embedEvents.length}件のイベント</span>
+        <a
+          href={fullMapQuery ? `/?${fullMapQuery}` : "/"}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="hover:underline"
+        >
+          スクラムフェスマップで見る
+        </a>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useEffect, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams, useLocation, Link } from "wouter";
+import { MapContainer, TileLayer, Marker } from "react-leaflet";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CalendarPlus, ExternalLink, History, Loader2, Map as MapIcon, Youtube } from "lucide-react";
+import type { EventWithTags } from "@db/schema";
+import { formatEventPeriod, isUpcomingEvent } from "@/lib/eventDates";
+import { resolveEventLocation } from "@/lib/eventLocation";
+import { attendanceModeLabels, formatEventPlace } from "@/lib/eventVenue";
+import { useUser } from "@/hooks/use-user";
+
+async function fetchEvent(eventId: string): Promise<EventWithTags> {
+  const response = await fetch(`/api/events/${eventId}`);
+  if (!response.ok) {
+    throw new Error(
+      response.status === 404 ? "イベントが見つかりません" : "イベントの取得に失敗しました"
+    );
+  }
+  return response.json();
+}
+
+function DetailRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="grid grid-cols-[7rem_1fr] gap-2">
+      <dt className="text-sm font-medium text-muted-foreground">{label}</dt>
+      <dd className="text-sm">{children}</dd>
+    </div>
+  );
+}
+
+export default function EventDetailPage() {
+  const params = useParams();
+  const [, setLocation] = useLocation();
+  const eventId = params.eventId;
+  const { user } = useUser();
+
+  const { data: event, isLoading, error } = useQuery({
+    queryKey: ["event", eventId],
+    queryFn: () => fetchEvent(eventId!),
+    enabled: !!eventId,
+  });
+
+  // 共有用のメタタグはサーバーで埋め込むので、ここではタブのタイトルだけ合わせる
+  useEffect(() => {
+    if (!event) return;
+    const previousTitle = document.title;
+    document.title = `${event.name} | スクラムフェスマップ`;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [event]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !event) {
+    return (
+      <div className="container mx-auto py-6 space-y-6">
+        <header className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold">イベント詳細</h1>
+          <Button variant="outline" onClick={() => setLocation("/")}>
+            地図へ戻る
+          </Button>
+        </header>
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-destructive space-y-2">
+              <p className="font-medium">エラーが発生しました</p>
+              <p className="text-sm text-muted-foreground">
+                {error instanceof Error ? error.message : "イベントの取得に失敗しました"}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const location = resolveEventLocation(event);
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <header className="flex justify-between items-center gap-4">
+        <h1 className="text-3xl font-bold">{event.name}</h1>
+        <Button variant="outline" onClick={() => setLocation("/")}>
+          地図へ戻る
+        </Button>
+      </header>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {formatEventPeriod(event)}
+              {isUpcomingEvent(event) && <Badge variant="secondary">これから</Badge>}
+            </CardTitle>
+            <CardDescription>{formatEventPlace(event)}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <dl className="space-y-2">
+              <DetailRow label="開催形式">{attendanceModeLabels[event.attendanceMode]}</DetailRow>
+              {event.venueName && <DetailRow label="会場">{event.venueName}</DetailRow>}
+              {event.venueAddress && <DetailRow label="会場住所">{event.venueAddress}</DetailRow>}
+              {event.coordinates && <DetailRow label="座標">{event.coordinates}</DetailRow>}
+              {event.tags.length > 0 && (
+                <DetailRow label="タグ">
+                  <div className="flex flex-wrap gap-1">
+                    {event.tags.map((tag) => (
+                      <Badge key={tag.id} variant="secondary">{tag.name}</Badge>
+                    ))}
+                  </div>
+                </DetailRow>
+              )}
+              {event.seriesId && (
+                <DetailRow label="シリーズ">
+                  <Link href={`/series/${event.seriesId}`} className="text-blue-500 hover:text-blue-700">
+                    過去の開催を見る
+                  </Link>
+                </DetailRow>
+              )}
+            </dl>
+
+            {event.description && (
+              <p className="text-sm whitespace-pre-wrap">{event.description}</p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {event.website && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={event.website} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="h-4 w-4 mr-2" />
+                    Webサイトへ
+                  </a>
+                </Button>
+              )}
+              {event.youtubePlaylist && event.youtubePlaylist.trim() !== "" && (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={event.youtubePlaylist} target="_blank" rel="noopener noreferrer">
+                    <Youtube className="h-4 w-4 mr-2" />
+                    録画を見る
+                  </a>
+                </Button>
+              )}
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/events/${event.id}/calendar.ics`}>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  カレンダーに追加
+                </a>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/?event=${event.id}`}>
+                  <MapIcon className="h-4 w-4 mr-2" />
+                  地図で見る
+                </Link>
+              </Button>
+              {user && (
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href={`/events/${event.id}/history`}>
+                    <History className="h-4 w-4 mr-2" />
+                    編集履歴
+                  </Link>
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="p-2">
+          {location ? (
+            <MapContainer
+              center={[location.lat, location.lng]}
+              zoom={location.source === "user" ? 13 : 8}
+              style={{ height: "320px", width: "100%" }}
+              scrollWheelZoom={false}
+            >
+              <TileLayer
+                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+              />
+              <Marker
+                position={[location.lat, location.lng]}
+                icon={L.divIcon({
+                  className: 'marker-container',
+                  html: `
+                    <div class="marker-pin-google ${isUpcomingEvent(event) ? 'future-event' : 'past-event'}">
+                      <div class="marker-head"></div>
+                      <div class="marker-tail"></div>
+                    </div>
+                  `,
+                  iconSize: [30, 42],
+                  iconAnchor: [15, 42],
+                })}
+              />
+            </MapContainer>
+          ) : (
+            <div className="h-[320px] flex items-center justify-center text-sm text-muted-foreground">
+              オンライン開催のため地図はありません
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Loader2 } from "lucide-react";
 import type { EventHistory } from "@db/schema";
+import { getEventColumnLabel } from "@/lib/eventColumns";
 
 interface EventHistoryWithDetails extends EventHistory {
   username: string;
@@ -25,15 +26,6 @@ async function fetchEventHistory(eventId: string): Promise<EventHistoryWithDetai
   return response.json();
 }
 
-const columnNameMap: Record<string, string> = {
-  name: "イベント名",
-  prefecture: "開催都道府県",
-  date: "開催日",
-  website: "Webサイト",
-  description: "説明",
-  youtubePlaylist: "YouTubeプレイリスト",
-};
-
 export default function EventHistoryPage() {
   const params = useParams();
   const [, setLocation] = useLocation();
@@ -111,7 +103,7 @@ export default function EventHistoryPage() {
                     編集者: <span className="font-medium">{record.username}</span>
                   </p>
                   <p>
-                    変更項目: <span className="font-medium">{columnNameMap[record.modifiedColumn] || record.modifiedColumn}</span>
+                    変更項目: <span className="font-medium">{getEventColumnLabel(record.modifiedColumn)}</span>
                   </p>
                   <div className="grid grid-cols-2 gap-4 mt-4">
                     <div>
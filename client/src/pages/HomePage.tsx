@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useUser } from "@/hooks/use-user";
 import { Button } from "../components/ui/button";
@@ -20,11 +20,25 @@ import {
   DrawerTitle,
   DrawerTrigger,
 } from "../components/ui/drawer";
-import type { Event, InsertEvent } from "@db/schema";
+import type { Event, EventWithTags, InsertEvent } from "@db/schema";
 import { formatDistanceToNow } from "date-fns";
 import { ja } from "date-fns/locale"; // Added import for 'ja' locale
+import { isUpcomingEvent } from "@/lib/eventDates";
+import { hasAnyTag } from "@/lib/eventTags";
+import { isEventInTimelineRange } from "@/lib/eventTimeline";
+import { resolveEventLocation } from "@/lib/eventLocation";
+import { isOnlineOnlyEvent, ONLINE_GROUP_ID } from "@/lib/eventVenue";
+import { prefectures } from "@/lib/prefectures";
+import { hasMapUrlState, type MapUrlState } from "@/lib/mapUrlState";
+import { useMapUrlState } from "@/hooks/use-map-url-state";
+import { EventTimeline } from "@/components/EventTimeline";
+import { useTags } from "@/hooks/use-tags";
+import { TagSelector } from "@/components/TagSelector";
+import { EmbedSnippetDialog } from "@/components/EmbedSnippetDialog";
+import { Input } from "@/components/ui/input";
+import { Search, CalendarDays } from "lucide-react";
 
-async function fetchEvents(): Promise<Event[]> {
+async function fetchEvents(): Promise<EventWithTags[]> {
   const response = await fetch("/api/events");
   if (!response.ok) {
     throw new Error("Failed to fetch events");
@@ -44,6 +58,11 @@ async function createEvent(event: InsertEvent): Promise<Event> {
   return response.json();
 }
 
+// イベントの都道府県（オンラインのみならオンライン）の id
+function getEventPrefectureId(event: Event): string | null {
+  if (isOnlineOnlyEvent(event)) return ONLINE_GROUP_ID;
+  return prefectures.find(p => p.name === event.prefecture)?.id ?? null;
+}
 
 // 最新の更新情報を表示するコンポーネント
 function LatestUpdate() {
@@ -69,17 +88,19 @@ function LatestUpdate() {
       <span className="font-medium text-foreground">{latestUpdate.username}</span>
       <span>さんが</span>
       <span className="font-medium text-foreground">「{latestUpdate.eventName}」</span>
-      <span>を更新しました</span>
+      <span>{latestUpdate.kind === "created" ? "を追加しました" : "を更新しました"}</span>
     </div>
   );
 }
 export default function HomePage() {
   const { user, logout, error } = useUser();
   const [, setLocation] = useLocation();
-  const [selectedPrefecture, setSelectedPrefecture] = useState<string | null>(null);
-  const [displayPeriod, setDisplayPeriod] = useState<"past" | "upcoming">("upcoming");
+  // 都道府県・表示期間・絞り込み・選択中のイベント・地図の位置はクエリ文字列で共有できるようにする
+  const [mapState, updateMapState] = useMapUrlState();
+  const { period: displayPeriod, timelineRange, searchQuery } = mapState;
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+  const [isEmbedDialogOpen, setIsEmbedDialogOpen] = useState(false);
   const queryClient = useQueryClient();
 
   useEffect(() => {
@@ -100,22 +121,62 @@ export default function HomePage() {
     queryFn: fetchEvents,
   });
 
-  // イベントのフィルタリング
-  const filteredEvents = useMemo(() => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    return events.filter(event => {
-      const eventDate = new Date(event.date);
-      eventDate.setHours(0, 0, 0, 0);
-      
-      if (displayPeriod === "past") {
-        return eventDate < today;
-      } else {
-        return eventDate >= today;
+  // 開いたときに一度だけ、URL で指定されたイベントが見えるよう表示を補う。
+  // 指定がなければ当日以降の最初のイベントを選択する
+  const initializedRef = useRef(false);
+  useEffect(() => {
+    if (initializedRef.current || events.length === 0) return;
+    initializedRef.current = true;
+
+    if (!hasMapUrlState(window.location.search)) {
+      const upcomingEvent = events.find(event => isUpcomingEvent(event));
+      if (upcomingEvent) {
+        updateMapState({
+          eventId: upcomingEvent.id,
+          prefecture: getEventPrefectureId(upcomingEvent),
+        }, { replace: true });
       }
+      return;
+    }
+
+    const selectedEvent = events.find(event => event.id === mapState.eventId);
+    if (!selectedEvent) return;
+    const changes: Partial<MapUrlState> = {};
+    if (!timelineRange || !isEventInTimelineRange(selectedEvent, timelineRange)) {
+      changes.period = isUpcomingEvent(selectedEvent) ? "upcoming" : "past";
+      changes.timelineRange = null;
+    }
+    if (!mapState.prefecture) {
+      changes.prefecture = getEventPrefectureId(selectedEvent);
+    }
+    const location = resolveEventLocation(selectedEvent);
+    if (!mapState.center && location) {
+      changes.center = [location.lat, location.lng];
+      changes.zoom = 9;
+    }
+    updateMapState(changes, { replace: true });
+  }, [events]);
+
+  const { data: tags = [] } = useTags();
+  const usedTags = useMemo(() => tags.filter(tag => tag.eventCount > 0), [tags]);
+  const selectedTagIds = useMemo(
+    () => tags.filter(tag => mapState.tagNames.includes(tag.name)).map(tag => tag.id),
+    [tags, mapState.tagNames]
+  );
+
+  const taggedEvents = useMemo(
+    () => events.filter(event => hasAnyTag(event, mapState.tagNames)),
+    [events, mapState.tagNames]
+  );
+
+  // イベントのフィルタリング（タグで絞り込んだうえで表示期間を適用する）
+  const filteredEvents = useMemo(() => {
+    return taggedEvents.filter(event => {
+      if (timelineRange) return isEventInTimelineRange(event, timelineRange);
+      const upcoming = isUpcomingEvent(event);
+      return displayPeriod === "past" ? !upcoming : upcoming;
     });
-  }, [events, displayPeriod]);
+  }, [taggedEvents, displayPeriod, timelineRange]);
 
   const createEventMutation = useMutation({
     mutationFn: createEvent,
@@ -136,6 +197,17 @@ export default function HomePage() {
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 sm:gap-4 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 sticky top-0 z-50 w-full border-b px-4 py-4 shadow-sm">
           <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 sm:gap-6 w-full sm:w-auto">
             <h1 className="text-2xl sm:text-3xl font-bold bg-gradient-to-r from-primary via-primary/80 to-primary/60 bg-clip-text text-transparent whitespace-nowrap">スクラムフェスマップ</h1>
+            <div className="relative w-full sm:w-64">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="search"
+                placeholder="イベントを検索（例: 大阪、osaka）"
+                value={searchQuery}
+                onChange={(e) => updateMapState({ searchQuery: e.target.value }, { replace: true })}
+                className="pl-8"
+                aria-label="イベントを検索"
+              />
+            </div>
           </div>
           
           {/* モバイルメニュー */}
@@ -393,23 +465,34 @@ export default function HomePage() {
 
         {/* 表示期間選択と最新の更新情報 */}
         <div className="w-full flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
-          <div className="inline-flex items-center justify-center bg-muted p-1 rounded-md">
-            <Button
-              variant={displayPeriod === "past" ? "default" : "ghost"}
-              size="sm"
-              onClick={() => setDisplayPeriod("past")}
-              className="relative min-w-[100px] rounded-r-none border-r"
-            >
-              これまで
-            </Button>
-            <Button
-              variant={displayPeriod === "upcoming" ? "default" : "ghost"}
-              size="sm"
-              onClick={() => setDisplayPeriod("upcoming")}
-              className="relative min-w-[100px] rounded-l-none"
-            >
-              これから
+          <div className="flex items-center gap-2">
+            <div className="inline-flex items-center justify-center bg-muted p-1 rounded-md">
+              <Button
+                variant={!timelineRange && displayPeriod === "past" ? "default" : "ghost"}
+                size="sm"
+                onClick={() => updateMapState({ period: "past", timelineRange: null })}
+                className="relative min-w-[100px] rounded-r-none border-r"
+              >
+                これまで
+              </Button>
+              <Button
+                variant={!timelineRange && displayPeriod === "upcoming" ? "default" : "ghost"}
+                size="sm"
+                onClick={() => updateMapState({ period: "upcoming", timelineRange: null })}
+                className="relative min-w-[100px] rounded-l-none"
+              >
+                これから
+              </Button>
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/calendar">
+                <CalendarDays className="h-4 w-4 mr-2" />
+                カレンダーで見る
+              </Link>
             </Button>
+            <div className="hidden sm:block">
+              <EmbedSnippetDialog open={isEmbedDialogOpen} onOpenChange={setIsEmbedDialogOpen} />
+            </div>
           </div>
           <div className="hidden sm:block">
             <LatestUpdate />
@@ -418,11 +501,45 @@ export default function HomePage() {
       </header>
 
       <div className="space-y-6">
-        {!isDialogOpen && !isDrawerOpen && (
+        {usedTags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">タグで絞り込む:</span>
+            <TagSelector
+              tags={usedTags}
+              selectedIds={selectedTagIds}
+              onChange={(ids) => updateMapState({
+                tagNames: tags.filter(tag => ids.includes(tag.id)).map(tag => tag.name),
+              })}
+            />
+            {selectedTagIds.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => updateMapState({ tagNames: [] })}>
+                クリア
+              </Button>
+            )}
+          </div>
+        )}
+        {!isDialogOpen && !isDrawerOpen && !isEmbedDialogOpen && (
           <JapanMap
             events={filteredEvents}
-            selectedPrefecture={selectedPrefecture}
-            onPrefectureSelect={setSelectedPrefecture}
+            allEvents={events}
+            searchQuery={searchQuery}
+            selectedPrefecture={mapState.prefecture}
+            selectedEventId={mapState.eventId}
+            center={mapState.center}
+            zoom={mapState.zoom}
+            onPrefectureSelect={(prefecture) => updateMapState({ prefecture, eventId: null })}
+            onEventSelect={(eventId) => updateMapState({ eventId })}
+            onViewChange={(center, zoom) => updateMapState({ center, zoom }, { replace: true })}
+            statsMetric={mapState.statsMetric}
+            onStatsMetricChange={(statsMetric) => updateMapState({ statsMetric })}
+            mapFooter={
+              <EventTimeline
+                events={taggedEvents}
+                range={timelineRange}
+                // 再生やスライダー操作のたびに履歴が増えないよう置き換える
+                onRangeChange={(range) => updateMapState({ timelineRange: range }, { replace: true })}
+              />
+            }
           />
         )}
       </div>
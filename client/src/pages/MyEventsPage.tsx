@@ -1,8 +1,8 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useUser } from "@/hooks/use-user";
 import { useLocation } from "wouter";
-import type { Event } from "@db/schema";
+import type { EventWithTags } from "@db/schema";
 import {
   Card,
   CardContent,
@@ -12,21 +12,29 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { format } from "date-fns";
-import { ja } from "date-fns/locale";
-import { Loader2, Edit, Download, Trash2, GitPullRequest } from "lucide-react";
+import { Loader2, Edit, Download, Trash2, CalendarPlus, Map as MapIcon } from "lucide-react";
 import { EventForm } from "@/components/EventForm";
+import { canModifyEvent } from "@/lib/eventPermissions";
+import { formatEventPeriod } from "@/lib/eventDates";
+import { formatEventPlace, formatEventVenue } from "@/lib/eventVenue";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 import SyncDebugPanel from "@/components/SyncDebugPanel";
 
-async function fetchAllEvents(): Promise<Event[]> {
-  const response = await fetch("/api/events");
+// 開催日の新しい順に並べてサーバーから取得する
+async function fetchAllEvents(): Promise<EventWithTags[]> {
+  const response = await fetch("/api/events?sort=date&order=desc");
   if (!response.ok) {
     throw new Error("Failed to fetch events");
   }
@@ -38,7 +46,7 @@ export default function MyEventsPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  const [editingEvent, setEditingEvent] = useState<EventWithTags | null>(null);
 
   const { data: events = [], isLoading, error } = useQuery({
     queryKey: ["events"],
@@ -46,36 +54,6 @@ export default function MyEventsPage() {
     retry: 1,
   });
 
-  const syncGitHubMutation = useMutation({
-    mutationFn: async () => {
-      const response = await fetch("/api/admin/sync-github", {
-        method: "POST",
-        credentials: "include",
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.details || error.error || "GitHubとの同期に失敗しました");
-      }
-
-      return response.json();
-    },
-    onSuccess: (data) => {
-      toast({
-        title: "同期完了",
-        description: `GitHubリポジトリにイベント一覧を同期しました。${data.details ? `\n${data.details}` : ""}`,
-      });
-    },
-    onError: (error) => {
-      console.error("Sync error:", error);
-      toast({
-        variant: "destructive",
-        title: "同期エラー",
-        description: error instanceof Error ? error.message : "GitHubとの同期に失敗しました。",
-      });
-    },
-  });
-
   if (isLoading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -95,10 +73,6 @@ export default function MyEventsPage() {
     );
   }
 
-  const sortedEvents = [...events].sort(
-    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-  );
-
   return (
     <div className="container mx-auto py-6 space-y-6">
       <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -116,23 +90,32 @@ export default function MyEventsPage() {
                 マークダウンでダウンロード
               </Button>
 
-              {user && (
-                <div className="flex gap-2">
-                  <Button
-                    variant="outline"
-                    onClick={() => syncGitHubMutation.mutate()}
-                    disabled={syncGitHubMutation.isPending}
-                  >
-                    {syncGitHubMutation.isPending ? (
-                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    ) : (
-                      <GitPullRequest className="h-4 w-4 mr-2" />
-                    )}
-                    GitHubに同期
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">
+                    <MapIcon className="h-4 w-4 mr-2" />
+                    地図データをエクスポート
                   </Button>
-                  {user.isAdmin && <SyncDebugPanel />}
-                </div>
-              )}
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  <DropdownMenuItem asChild>
+                    <a href="/api/events/export.geojson">GeoJSON（uMapなど）</a>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <a href="/api/events/export.kml">KML（Googleマイマップなど）</a>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+
+              <Button variant="outline" asChild>
+                <a href="/api/events/calendar.ics" title="このURLをカレンダーアプリに登録すると自動で更新されます">
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  カレンダーを購読
+                </a>
+              </Button>
+
+              {/* 同期は差分を確認してから行う */}
+              {user?.isAdmin && <SyncDebugPanel />}
 
             </div>
           )}
@@ -154,10 +137,16 @@ export default function MyEventsPage() {
                   name: editingEvent.name,
                   prefecture: editingEvent.prefecture,
                   date: new Date(editingEvent.date),
+                  endDate: editingEvent.endDate ? new Date(editingEvent.endDate) : null,
                   website: editingEvent.website || "",
                   description: editingEvent.description || "",
                   youtubePlaylist: editingEvent.youtubePlaylist || "",
                   coordinates: editingEvent.coordinates || "",
+                  venueName: editingEvent.venueName || "",
+                  venueAddress: editingEvent.venueAddress || "",
+                  attendanceMode: editingEvent.attendanceMode,
+                  seriesId: editingEvent.seriesId,
+                  tagIds: editingEvent.tags.map(tag => tag.id),
                 }}
                 onSubmit={async (data) => {
                   try {
@@ -199,7 +188,7 @@ export default function MyEventsPage() {
         </DialogContent>
       </Dialog>
 
-      {sortedEvents.length === 0 ? (
+      {events.length === 0 ? (
         <Card>
           <CardContent className="py-8 text-center text-muted-foreground">
             <p>表示できるイベントはありません。</p>
@@ -207,23 +196,22 @@ export default function MyEventsPage() {
         </Card>
       ) : (
         <div className="grid gap-4">
-          {sortedEvents.map((event) => (
+          {events.map((event) => (
             <Card key={event.id}>
               <CardHeader>
                 <div className="flex justify-between items-start">
                   <div>
                     <CardTitle>{event.name}</CardTitle>
                     <CardDescription>
-                      {format(new Date(event.date), "yyyy年M月d日(E)", {
-                        locale: ja,
-                      })}
+                      {formatEventPeriod(event)}
                     </CardDescription>
                   </div>
                 </div>
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
-                  <p>開催地: {event.prefecture}</p>
+                  <p>開催地: {formatEventPlace(event)}</p>
+                  {formatEventVenue(event) && <p>会場: {formatEventVenue(event)}</p>}
                   {event.description && (
                     <p className="text-sm text-muted-foreground mt-2">{event.description}</p>
                   )}
@@ -256,50 +244,53 @@ export default function MyEventsPage() {
                     )}
                     {user && (
                       <div className="flex gap-2">
-                        {(user.isAdmin || event.createdBy === Number(user.id)) && (
-                          <Button
-                            variant="destructive"
-                            size="sm"
-                            onClick={() => {
-                              if (confirm("このイベントを削除してもよろしいですか？\nこの操作は取り消すことができません。")) {
-                                // Delete event
-                                fetch(`/api/events/${event.id}`, {
-                                  method: "DELETE",
-                                  credentials: "include",
-                                })
-                                  .then((response) => {
-                                    if (!response.ok) {
-                                      throw new Error("Failed to delete event");
-                                    }
-                                    queryClient.invalidateQueries({ queryKey: ["events"] });
-                                    toast({
-                                      title: "削除完了",
-                                      description: "イベントを削除しました。",
-                                    });
+                        {canModifyEvent(user, event) && (
+                          <>
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => {
+                                if (confirm("このイベントを削除してもよろしいですか？\n編集履歴を残すため、アーカイブ済みとして保管されます。")) {
+                                  // Delete event
+                                  fetch(`/api/events/${event.id}`, {
+                                    method: "DELETE",
+                                    credentials: "include",
                                   })
-                                  .catch((error) => {
-                                    console.error("Delete error:", error);
-                                    toast({
-                                      variant: "destructive",
-                                      title: "エラー",
-                                      description: error instanceof Error ? error.message : "イベントの削除に失敗しました。",
+                                    .then(async (response) => {
+                                      if (!response.ok) {
+                                        const error = await response.json();
+                                        throw new Error(error.error || "Failed to delete event");
+                                      }
+                                      queryClient.invalidateQueries({ queryKey: ["events"] });
+                                      toast({
+                                        title: "削除完了",
+                                        description: "イベントを削除しました。",
+                                      });
+                                    })
+                                    .catch((error) => {
+                                      console.error("Delete error:", error);
+                                      toast({
+                                        variant: "destructive",
+                                        title: "エラー",
+                                        description: error instanceof Error ? error.message : "イベントの削除に失敗しました。",
+                                      });
                                     });
-                                  });
-                              }
-                            }}
-                          >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            削除
-                          </Button>
+                                }
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              削除
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setEditingEvent(event)}
+                            >
+                              <Edit className="h-4 w-4 mr-2" />
+                              編集
+                            </Button>
+                          </>
                         )}
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => setEditingEvent(event)}
-                        >
-                          <Edit className="h-4 w-4 mr-2" />
-                          編集
-                        </Button>
                         <Button
                           variant="outline"
                           size="sm"
@@ -0,0 +1,178 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ExternalLink, Loader2 } from "lucide-react";
+import { formatEventPeriod, isUpcomingEvent } from "@/lib/eventDates";
+import { formatEventPlace, formatEventVenue } from "@/lib/eventVenue";
+import type { EventSeriesWithEditions } from "@/lib/eventSeries";
+
+async function fetchSeries(seriesId: string): Promise<EventSeriesWithEditions> {
+  const response = await fetch(`/api/series/${seriesId}`);
+  if (!response.ok) {
+    throw new Error(
+      response.status === 404 ? "シリーズが見つかりません" : "シリーズの取得に失敗しました"
+    );
+  }
+  return response.json();
+}
+
+export default function SeriesPage() {
+  const params = useParams();
+  const [, setLocation] = useLocation();
+  const seriesId = params.seriesId;
+
+  const { data: series, isLoading, error } = useQuery({
+    queryKey: ["series", seriesId],
+    queryFn: () => fetchSeries(seriesId!),
+    enabled: !!seriesId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !series) {
+    return (
+      <div className="container mx-auto py-6 space-y-6">
+        <header className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold">イベントシリーズ</h1>
+          <Button variant="outline" onClick={() => setLocation("/")}>
+            地図へ戻る
+          </Button>
+        </header>
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-destructive space-y-2">
+              <p className="font-medium">エラーが発生しました</p>
+              <p className="text-sm text-muted-foreground">
+                {error instanceof Error ? error.message : "シリーズの取得に失敗しました"}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const years = series.editions.map(edition => new Date(edition.date).getFullYear());
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <header className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">{series.name}</h1>
+        <Button variant="outline" onClick={() => setLocation("/")}>
+          地図へ戻る
+        </Button>
+      </header>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>シリーズ概要</CardTitle>
+          <CardDescription>
+            {series.editions.length > 0
+              ? `${Math.min(...years)}年から${series.editions.length}回開催`
+              : "まだ開催回が登録されていません"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {series.homePrefecture && <p>本拠地: {series.homePrefecture}</p>}
+          {series.website && (
+            <a
+              href={series.website}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center text-sm text-blue-500 hover:text-blue-700"
+            >
+              <ExternalLink className="h-4 w-4 mr-1" />
+              シリーズのWebサイト
+            </a>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>開催の歴史</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {series.editions.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">開催回はありません。</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>回</TableHead>
+                  <TableHead>イベント名</TableHead>
+                  <TableHead>開催日</TableHead>
+                  <TableHead>開催地</TableHead>
+                  <TableHead>リンク</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {series.editions.map((edition, index) => (
+                  <TableRow key={edition.id}>
+                    <TableCell>第{index + 1}回</TableCell>
+                    <TableCell>
+                      <span className="font-medium">{edition.name}</span>
+                      {isUpcomingEvent(edition) && (
+                        <Badge variant="secondary" className="ml-2">これから</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatEventPeriod(edition, "yyyy/M/d")}</TableCell>
+                    <TableCell>
+                      {[formatEventPlace(edition), formatEventVenue(edition)].filter(Boolean).join(" / ")}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-3">
+                        {edition.website && (
+                          <a
+                            href={edition.website}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm text-blue-500 hover:text-blue-700"
+                          >
+                            Webサイト
+                          </a>
+                        )}
+                        {edition.youtubePlaylist && edition.youtubePlaylist.trim() !== "" && (
+                          <a
+                            href={edition.youtubePlaylist}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm text-blue-500 hover:text-blue-700"
+                          >
+                            録画
+                          </a>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
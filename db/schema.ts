@@ -1,6 +1,7 @@
-import { pgTable, text, integer, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, integer, timestamp, boolean, jsonb, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
+import { toJSTDateKey } from "../client/src/lib/eventDates";
 
 export const users = pgTable("users", {
   id: integer().primaryKey().generatedAlwaysAsIdentity(),
@@ -10,14 +11,41 @@ export const users = pgTable("users", {
   isAdmin: boolean("is_admin").default(false).notNull(),
 });
 
+// 毎年開催されるイベントのシリーズ（例: スクラムフェス大阪）
+export const eventSeries = pgTable("event_series", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  name: text("name").unique().notNull(),
+  website: text("website"),
+  homePrefecture: text("home_prefecture"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertEventSeriesSchema = createInsertSchema(eventSeries, {
+  name: z.string().trim().min(1, "シリーズ名を入力してください"),
+  website: z.string().trim().nullable().optional(),
+  homePrefecture: z.string().trim().nullable().optional(),
+});
+export const selectEventSeriesSchema = createSelectSchema(eventSeries);
+export type InsertEventSeries = z.infer<typeof insertEventSeriesSchema>;
+export type EventSeries = z.infer<typeof selectEventSeriesSchema>;
+
+export const attendanceModes = ["onsite", "online", "hybrid"] as const;
+export type AttendanceMode = typeof attendanceModes[number];
+
 export const events = pgTable("events", {
   id: integer().primaryKey().generatedAlwaysAsIdentity(),
   name: text("name").notNull(),
   prefecture: text("prefecture").notNull(),
   date: timestamp("date").notNull(),
+  endDate: timestamp("end_date"),
   website: text("website"),
   description: text("description"),
   coordinates: text("coordinates"),
+  venueName: text("venue_name"),
+  venueAddress: text("venue_address"),
+  attendanceMode: text("attendance_mode").$type<AttendanceMode>().default("onsite").notNull(),
+  seriesId: integer("series_id").references(() => eventSeries.id, { onDelete: "set null" }),
   createdBy: integer("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -32,14 +60,50 @@ export type User = z.infer<typeof selectUserSchema>;
 
 export const insertEventSchema = createInsertSchema(events, {
   name: z.string().min(1, "イベント名を入力してください"),
-  prefecture: z.string().min(1, "開催都道府県を選択してください"),
+  prefecture: z.string(),
   date: z.coerce.date(),
+  endDate: z.coerce.date().nullable().optional(),
   coordinates: z.string().optional(),
+  attendanceMode: z.enum(attendanceModes).optional(),
+}).refine(
+  // 開催日には時刻が入ることがあるため、日本時間の日付で比較する
+  (event) => !event.endDate || toJSTDateKey(event.endDate) >= toJSTDateKey(event.date),
+  { message: "終了日は開始日以降の日付を入力してください", path: ["endDate"] }
+).refine(
+  // オンラインのみのイベントは開催都道府県を省略できる
+  (event) => event.attendanceMode === "online" || event.prefecture.trim() !== "",
+  { message: "開催都道府県を選択してください", path: ["prefecture"] }
+);
+export const selectEventSchema = createSelectSchema(events, {
+  attendanceMode: z.enum(attendanceModes),
 });
-export const selectEventSchema = createSelectSchema(events);
 export type InsertEvent = z.infer<typeof insertEventSchema>;
 export type Event = z.infer<typeof selectEventSchema>;
 
+// 管理者が管理するテーマ別のタグ（例: 生成AI、テストエンジニアリング）
+export const tags = pgTable("tags", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  name: text("name").unique().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertTagSchema = createInsertSchema(tags, {
+  name: z.string().trim().min(1, "タグ名を入力してください"),
+});
+export const selectTagSchema = createSelectSchema(tags);
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type Tag = z.infer<typeof selectTagSchema>;
+
+export const eventTags = pgTable("event_tags", {
+  eventId: integer("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.eventId, table.tagId] }),
+}));
+
+export type EventWithTags = Event & { tags: Tag[] };
+
 export const eventHistory = pgTable("event_history", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   eventId: integer("event_id").notNull().references(() => events.id),
@@ -54,3 +118,69 @@ export const insertEventHistorySchema = createInsertSchema(eventHistory);
 export const selectEventHistorySchema = createSelectSchema(eventHistory);
 export type InsertEventHistory = z.infer<typeof insertEventHistorySchema>;
 export type EventHistory = z.infer<typeof selectEventHistorySchema>;
+
+export const syncTargetFormats = ["markdown", "ics"] as const;
+export type SyncTargetFormat = typeof syncTargetFormats[number];
+
+export const syncTargets = pgTable("sync_targets", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  owner: text("owner").notNull(),
+  repo: text("repo").notNull(),
+  branch: text("branch"),
+  path: text("path").notNull(),
+  format: text("format").$type<SyncTargetFormat>().default("markdown").notNull(),
+  isEnabled: boolean("is_enabled").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertSyncTargetSchema = createInsertSchema(syncTargets, {
+  owner: z.string().trim().min(1, "オーナーを入力してください"),
+  repo: z.string().trim().min(1, "リポジトリを入力してください"),
+  branch: z.string().trim().nullable().optional(),
+  path: z.string().trim().min(1, "ファイルパスを入力してください"),
+  format: z.enum(syncTargetFormats),
+});
+export const selectSyncTargetSchema = createSelectSchema(syncTargets);
+export type InsertSyncTarget = z.infer<typeof insertSyncTargetSchema>;
+export type SyncTarget = z.infer<typeof selectSyncTargetSchema>;
+
+export const syncRunStatuses = ["running", "succeeded", "partial", "failed", "unchanged"] as const;
+export type SyncRunStatus = typeof syncRunStatuses[number];
+export type SyncMode = "direct" | "pull-request";
+export type SyncTrigger = "manual" | "scheduled";
+
+export interface SyncLogEntry {
+  timestamp: string;
+  type: "info" | "error";
+  title: string;
+  details: any;
+}
+
+export interface SyncTargetResult {
+  targetId: number;
+  target: string;
+  success: boolean;
+  commitSha?: string;
+  pullRequestUrl?: string;
+  // 公開中の内容と差分がなくコミットしなかった
+  unchanged?: boolean;
+  error?: string;
+}
+
+export const syncRuns = pgTable("sync_runs", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+  triggeredBy: integer("triggered_by").references(() => users.id, { onDelete: "set null" }),
+  trigger: text("trigger").$type<SyncTrigger>().default("manual").notNull(),
+  mode: text("mode").$type<SyncMode>().default("direct").notNull(),
+  status: text("status").$type<SyncRunStatus>().default("running").notNull(),
+  commitSha: text("commit_sha"),
+  changeSummary: text("change_summary"),
+  results: jsonb("results").$type<SyncTargetResult[]>().default([]).notNull(),
+  logs: jsonb("logs").$type<SyncLogEntry[]>().default([]).notNull(),
+});
+
+// jsonb の列は zod スキーマでは型が失われるため、テーブル定義から推論する
+export type SyncRun = typeof syncRuns.$inferSelect;
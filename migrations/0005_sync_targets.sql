@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "sync_targets" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "owner" text NOT NULL,
+  "repo" text NOT NULL,
+  "branch" text,
+  "path" text NOT NULL,
+  "format" text DEFAULT 'markdown' NOT NULL,
+  "is_enabled" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- これまでコードに埋め込まれていた同期先を初期値として登録
+INSERT INTO "sync_targets" ("owner", "repo", "path", "format")
+SELECT 'kawaguti', 'ScrumFestMapViewer', 'all-events.md', 'markdown'
+WHERE NOT EXISTS (SELECT 1 FROM "sync_targets");
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "sync_runs" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "started_at" timestamp DEFAULT now() NOT NULL,
+  "finished_at" timestamp,
+  "triggered_by" integer,
+  "mode" text DEFAULT 'direct' NOT NULL,
+  "status" text DEFAULT 'running' NOT NULL,
+  "commit_sha" text,
+  "change_summary" text,
+  "results" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "logs" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  CONSTRAINT "sync_runs_triggered_by_users_id_fk" FOREIGN KEY ("triggered_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION
+);
+
+CREATE INDEX IF NOT EXISTS "sync_runs_started_at_idx" ON "sync_runs" ("started_at");
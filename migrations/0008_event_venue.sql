@@ -0,0 +1,3 @@
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "venue_name" text;
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "venue_address" text;
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "attendance_mode" text DEFAULT 'onsite' NOT NULL;
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "event_series" (
+  "id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  "name" text NOT NULL,
+  "website" text,
+  "home_prefecture" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  CONSTRAINT "event_series_name_unique" UNIQUE("name")
+);
+
+ALTER TABLE "events" ADD COLUMN IF NOT EXISTS "series_id" integer;
+
+DO $$ BEGIN
+  ALTER TABLE "events" ADD CONSTRAINT "events_series_id_event_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "event_series"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,250 @@
+import { db } from "../db";
+import { events, eventHistory, insertEventSchema, attendanceModes } from "../db/schema";
+import type { AttendanceMode, Event } from "../db/schema";
+import { eq } from "drizzle-orm";
+import {
+  CSV_ENCODING_ERROR_MESSAGE,
+  findUndecodableLine,
+  parseEventCsv,
+  parseCsvDate,
+  type EventCsvRecord,
+} from "../client/src/lib/eventCsv";
+import { prefectures } from "../client/src/lib/prefectures";
+import { isSameJSTDay } from "../client/src/lib/eventDates";
+import { diffEvent, toHistoryRows } from "./event-history";
+import type { ImportResult, ImportStatus } from "./event-import";
+
+export interface CsvEventValues {
+  name: string;
+  prefecture: string;
+  date: Date;
+  endDate: Date | null;
+  website: string | null;
+  description: string | null;
+  youtubePlaylist: string | null;
+  coordinates: string | null;
+  venueName: string | null;
+  venueAddress: string | null;
+  attendanceMode: AttendanceMode;
+  isArchived: boolean;
+}
+
+export interface CsvImportPlanItem {
+  line: number;
+  status: ImportStatus;
+  eventId: number | null;
+  event: CsvEventValues;
+  changedColumns: string[];
+}
+
+// マークダウンのインポートと同じ形にして、画面でのエラー表示を共通にする
+export interface CsvImportError {
+  section: string;
+  line: number;
+  message: string;
+}
+
+export interface CsvImportPlan {
+  items: CsvImportPlanItem[];
+  errors: CsvImportError[];
+  summary: Record<ImportStatus, number>;
+}
+
+const prefectureNames = new Set<string>(prefectures.map(prefecture => prefecture.name));
+
+// CSV の各行を検証し、id または「名前と開催日」が一致するイベントと比較した取り込み計画を作る
+export async function buildCsvImportPlan(csv: string): Promise<CsvImportPlan> {
+  // UTF-8 / Shift_JIS 以外の文字コードのまま送られた CSV は取り込まない
+  const undecodableLine = findUndecodableLine(csv);
+  if (undecodableLine !== null) {
+    return {
+      items: [],
+      errors: [{ section: "文字コード", line: undecodableLine, message: CSV_ENCODING_ERROR_MESSAGE }],
+      summary: { new: 0, changed: 0, unchanged: 0 },
+    };
+  }
+
+  const { records, missingColumns } = parseEventCsv(csv);
+  if (missingColumns.length > 0) {
+    return {
+      items: [],
+      errors: [{ section: "見出し行", line: 1, message: `必須の列がありません: ${missingColumns.join(", ")}` }],
+      summary: { new: 0, changed: 0, unchanged: 0 },
+    };
+  }
+
+  const existingEvents = await db.select().from(events);
+  const matchedIds = new Map<number, number>();
+  const items: CsvImportPlanItem[] = [];
+  const errors: CsvImportError[] = [];
+
+  for (const { line, record } of records) {
+    const section = record.name || `${line}行目`;
+    const result = toEventValues(record);
+    if (typeof result === "string") {
+      errors.push({ section, line, message: result });
+      continue;
+    }
+
+    let existing: Event | undefined;
+    if (record.id) {
+      existing = existingEvents.find(event => String(event.id) === record.id);
+      if (!existing) {
+        errors.push({ section, line, message: `id ${record.id} のイベントが見つかりません` });
+        continue;
+      }
+    } else {
+      existing = existingEvents.find(
+        event => event.name === result.name && isSameJSTDay(event.date, result.date)
+      );
+    }
+
+    if (existing) {
+      const duplicateLine = matchedIds.get(existing.id);
+      if (duplicateLine !== undefined) {
+        errors.push({ section, line, message: `${duplicateLine}行目と同じイベントです` });
+        continue;
+      }
+      matchedIds.set(existing.id, line);
+    }
+
+    const values = existing ? keepSameDayDates(existing, result) : result;
+    const changedColumns = existing ? getChangedColumns(existing, values) : [];
+    items.push({
+      line,
+      status: !existing ? "new" : changedColumns.length > 0 ? "changed" : "unchanged",
+      eventId: existing?.id ?? null,
+      event: values,
+      changedColumns,
+    });
+  }
+
+  return {
+    items,
+    errors,
+    summary: {
+      new: items.filter(item => item.status === "new").length,
+      changed: items.filter(item => item.status === "changed").length,
+      unchanged: items.filter(item => item.status === "unchanged").length,
+    },
+  };
+}
+
+// 取り込み計画を1つのトランザクションで反映する
+export async function applyCsvImportPlan(plan: CsvImportPlan, userId: number): Promise<ImportResult> {
+  await db.transaction(async (tx) => {
+    for (const item of plan.items) {
+      if (item.status === "new") {
+        await tx.insert(events).values({
+          ...item.event,
+          createdBy: userId,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        });
+        continue;
+      }
+
+      if (item.status !== "changed" || item.eventId === null) continue;
+
+      const [existing] = await tx
+        .select()
+        .from(events)
+        .where(eq(events.id, item.eventId))
+        .limit(1);
+      if (!existing) {
+        throw new Error(`イベントが見つかりません: ${item.event.name}`);
+      }
+
+      const changes = diffEvent(existing, item.event);
+      await tx.update(events)
+        .set({ ...item.event, updatedAt: new Date() })
+        .where(eq(events.id, item.eventId));
+      if (changes.length > 0) {
+        await tx.insert(eventHistory).values(toHistoryRows(item.eventId, userId, changes));
+      }
+    }
+  });
+
+  return {
+    created: plan.summary.new,
+    updated: plan.summary.changed,
+    unchanged: plan.summary.unchanged,
+  };
+}
+
+function toEventValues(record: Partial<EventCsvRecord>): CsvEventValues | string {
+  const date = parseCsvDate(record.date ?? "");
+  if (!date) {
+    return "開催日は YYYY-MM-DD 形式で入力してください";
+  }
+
+  let endDate: Date | null = null;
+  if (record.endDate) {
+    endDate = parseCsvDate(record.endDate);
+    if (!endDate) {
+      return "終了日は YYYY-MM-DD 形式で入力してください";
+    }
+  }
+
+  const attendanceMode = (record.attendanceMode || "onsite") as AttendanceMode;
+  if (!attendanceModes.includes(attendanceMode)) {
+    return `attendanceMode 列は ${attendanceModes.join(" / ")} のいずれかを入力してください`;
+  }
+
+  // オンラインのみのイベントは都道府県を空欄にできる
+  const prefecture = record.prefecture ?? "";
+  if (!(attendanceMode === "online" && prefecture === "") && !prefectureNames.has(prefecture)) {
+    return `都道府県名が正しくありません: ${prefecture || "(空欄)"}`;
+  }
+
+  const coordinates = record.coordinates || null;
+  if (coordinates && coordinates.split(",").map(coord => Number(coord.trim())).some(isNaN)) {
+    return "座標は「緯度, 経度」の形式で入力してください";
+  }
+
+  const archived = (record.archived ?? "").toLowerCase();
+  if (!["", "true", "false", "1", "0"].includes(archived)) {
+    return "archived 列は true または false を入力してください";
+  }
+
+  const values: CsvEventValues = {
+    name: record.name ?? "",
+    prefecture,
+    date,
+    endDate,
+    website: record.website || null,
+    description: record.description || null,
+    youtubePlaylist: record.youtubePlaylist || null,
+    coordinates,
+    venueName: record.venueName || null,
+    venueAddress: record.venueAddress || null,
+    attendanceMode,
+    isArchived: archived === "true" || archived === "1",
+  };
+
+  const parsed = insertEventSchema.safeParse({
+    ...values,
+    coordinates: values.coordinates ?? undefined,
+  });
+  if (!parsed.success) {
+    return parsed.error.errors.map(issue => issue.message).join("、");
+  }
+
+  return values;
+}
+
+// CSV には日付しかないため、同じ日付なら既存の時刻を残す
+function keepSameDayDates(existing: Event, values: CsvEventValues): CsvEventValues {
+  return {
+    ...values,
+    date: isSameJSTDay(existing.date, values.date) ? existing.date : values.date,
+    endDate:
+      existing.endDate && values.endDate && isSameJSTDay(existing.endDate, values.endDate)
+        ? existing.endDate
+        : values.endDate,
+  };
+}
+
+function getChangedColumns(existing: Event, values: CsvEventValues): string[] {
+  return diffEvent(existing, values).map(change => change.column);
+}
@@ -0,0 +1,191 @@
+import { db } from "../db";
+import { events, eventHistory, users } from "../db/schema";
+import type { Event } from "../db/schema";
+import { eq, desc, inArray } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { formatEventPeriod, toJSTDateKey } from "../client/src/lib/eventDates";
+import { getEventColumnLabel } from "../client/src/lib/eventColumns";
+import { formatEventPlace } from "../client/src/lib/eventVenue";
+
+const FEED_TITLE = "スクラムフェスマップ";
+const FEED_DESCRIPTION = "スクラムフェスマップに追加・更新されたイベント";
+
+export type FeedEntryKind = "created" | "updated";
+
+export interface FeedEntry {
+  kind: FeedEntryKind;
+  event: Event;
+  publishedAt: Date;
+  updatedAt: Date;
+  username: string | null;
+  changedColumns: string[];
+  summary: string;
+}
+
+// 追加・更新されたイベントを、最後に変更された順に1イベント1件で返す
+export async function getFeedEntries(limit = 50): Promise<FeedEntry[]> {
+  const creators = alias(users, "creators");
+  const recentEvents = await db
+    .select({ event: events, creatorName: creators.username })
+    .from(events)
+    .leftJoin(creators, eq(creators.id, events.createdBy))
+    .where(eq(events.isArchived, false))
+    .orderBy(desc(events.updatedAt))
+    .limit(limit);
+
+  if (recentEvents.length === 0) {
+    return [];
+  }
+
+  const historyRows = await db
+    .select({
+      eventId: eventHistory.eventId,
+      modifiedAt: eventHistory.modifiedAt,
+      modifiedColumn: eventHistory.modifiedColumn,
+      username: users.username
+    })
+    .from(eventHistory)
+    .innerJoin(users, eq(users.id, eventHistory.userId))
+    .where(inArray(eventHistory.eventId, recentEvents.map(({ event }) => event.id)))
+    .orderBy(desc(eventHistory.modifiedAt));
+
+  return recentEvents
+    .map(({ event, creatorName }): FeedEntry => {
+      const history = historyRows.filter(row => row.eventId === event.id);
+      if (history.length === 0) {
+        return {
+          kind: "created",
+          event,
+          publishedAt: event.createdAt,
+          updatedAt: event.updatedAt,
+          username: creatorName,
+          changedColumns: [],
+          summary: `新しいイベントが追加されました（${formatEventPlace(event)}、${formatJSTPeriod(event)}）`
+        };
+      }
+
+      // 1回の保存で記録された履歴は同じ時刻になる
+      const latest = history[0];
+      const changedColumns = Array.from(new Set(
+        history
+          .filter(row => row.modifiedAt.getTime() === latest.modifiedAt.getTime())
+          .map(row => row.modifiedColumn)
+      ));
+      const updatedAt = latest.modifiedAt > event.updatedAt ? latest.modifiedAt : event.updatedAt;
+
+      return {
+        kind: "updated",
+        event,
+        publishedAt: event.createdAt,
+        updatedAt,
+        username: latest.username,
+        changedColumns,
+        summary: `${changedColumns.map(getEventColumnLabel).join("、")}が更新されました`
+      };
+    })
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+// siteOrigin はエントリーやサイトへのリンクの起点（getSiteOrigin の値）
+export function generateAtomFeed(entries: FeedEntry[], feedUrl: string, siteOrigin: string): string {
+  const updated = entries[0]?.updatedAt ?? new Date();
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="ja">',
+    `  <id>${escapeXml(feedUrl)}</id>`,
+    `  <title>${escapeXml(FEED_TITLE)}</title>`,
+    `  <subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(siteOrigin)}"/>`,
+    ...entries.flatMap(entry => [
+      "  <entry>",
+      `    <id>${escapeXml(getEntryId(entry))}</id>`,
+      `    <title>${escapeXml(getEntryTitle(entry))}</title>`,
+      `    <published>${entry.publishedAt.toISOString()}</published>`,
+      `    <updated>${entry.updatedAt.toISOString()}</updated>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(getEntryUrl(entry, siteOrigin))}"/>`,
+      ...(entry.username ? [`    <author><name>${escapeXml(entry.username)}</name></author>`] : []),
+      ...entry.changedColumns.map(column => `    <category term="${escapeXml(column)}" label="${escapeXml(getEventColumnLabel(column))}"/>`),
+      `    <summary>${escapeXml(entry.summary)}</summary>`,
+      `    <content type="text">${escapeXml(getEntryContent(entry))}</content>`,
+      "  </entry>",
+    ]),
+    "</feed>",
+  ];
+  return lines.join("\n") + "\n";
+}
+
+// JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/)
+export function generateJsonFeed(entries: FeedEntry[], feedUrl: string, siteOrigin: string) {
+  return {
+    version: "https://jsonfeed.org/version/1.1",
+    title: FEED_TITLE,
+    description: FEED_DESCRIPTION,
+    home_page_url: siteOrigin,
+    feed_url: feedUrl,
+    language: "ja",
+    items: entries.map(entry => ({
+      id: getEntryId(entry),
+      url: getEntryUrl(entry, siteOrigin),
+      external_url: entry.event.website || undefined,
+      title: getEntryTitle(entry),
+      summary: entry.summary,
+      content_text: getEntryContent(entry),
+      date_published: entry.publishedAt.toISOString(),
+      date_modified: entry.updatedAt.toISOString(),
+      authors: entry.username ? [{ name: entry.username }] : undefined,
+      tags: entry.changedColumns.length > 0 ? entry.changedColumns.map(getEventColumnLabel) : undefined,
+    })),
+  };
+}
+
+// 更新のたびに新しいエントリーとして扱われるよう、最終更新時刻を含める
+function getEntryId(entry: FeedEntry): string {
+  return `tag:scrumfestmap.kawaguti.dev,2024:event-${entry.event.id}/${entry.updatedAt.getTime()}`;
+}
+
+function getEntryTitle(entry: FeedEntry): string {
+  return entry.kind === "created"
+    ? `追加: ${entry.event.name}`
+    : `更新: ${entry.event.name}`;
+}
+
+// イベントの Web サイトではなく、スクラムフェスマップのイベント詳細ページへリンクする
+function getEntryUrl(entry: FeedEntry, siteOrigin: string): string {
+  return `${siteOrigin}/events/${entry.event.id}`;
+}
+
+function getEntryContent(entry: FeedEntry): string {
+  const { event } = entry;
+  const parts = [
+    entry.summary,
+    `開催地: ${formatEventPlace(event)}`,
+    `開催日: ${formatJSTPeriod(event)}`,
+  ];
+  if (event.website) parts.push(`Webサイト: ${event.website}`);
+  if (event.description?.trim()) parts.push("", event.description.trim());
+  return parts.join("\n");
+}
+
+// サーバーの時刻帯に関係なく日本時間の日付で表示する
+export function formatJSTPeriod(event: Event): string {
+  const toJST = (value: Date) => {
+    const [year, month, day] = toJSTDateKey(value).split("-").map(Number);
+    return new Date(year, month - 1, day);
+  };
+  return formatEventPeriod({
+    date: toJST(event.date),
+    endDate: event.endDate ? toJST(event.endDate) : null,
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,71 @@
+import type { Event, InsertEventHistory } from "../db/schema";
+
+export const trackedEventColumns = [
+  "name",
+  "prefecture",
+  "date",
+  "endDate",
+  "website",
+  "description",
+  "youtubePlaylist",
+  "coordinates",
+  "venueName",
+  "venueAddress",
+  "attendanceMode",
+  "seriesId",
+  "isArchived",
+] as const;
+
+export type TrackedEventColumn = typeof trackedEventColumns[number];
+
+// タグはイベントの列ではないが、同じ形で編集履歴に残す
+const TAGS_HISTORY_COLUMN = "tags";
+
+export interface EventChange {
+  column: TrackedEventColumn | typeof TAGS_HISTORY_COLUMN;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+function serializeEventValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+// 更新前後のイベントを比較し、変更された項目のみを返す。
+// undefined の項目は drizzle が更新しないため、変更として扱わない
+export function diffEvent(
+  current: Event,
+  updates: Partial<Record<TrackedEventColumn, unknown>>
+): EventChange[] {
+  return trackedEventColumns
+    .filter(column => updates[column] !== undefined)
+    .map(column => ({
+      column,
+      oldValue: serializeEventValue(current[column]),
+      newValue: serializeEventValue(updates[column])
+    }))
+    .filter(change => change.oldValue !== change.newValue);
+}
+
+// タグ名を並べた文字列で比較し、変わっていれば変更として返す
+export function diffEventTags(currentNames: string[], nextNames: string[]): EventChange[] {
+  const oldValue = serializeEventValue([...currentNames].sort().join(", "));
+  const newValue = serializeEventValue([...nextNames].sort().join(", "));
+  return oldValue === newValue ? [] : [{ column: TAGS_HISTORY_COLUMN, oldValue, newValue }];
+}
+
+export function toHistoryRows(
+  eventId: number,
+  userId: number,
+  changes: EventChange[]
+): InsertEventHistory[] {
+  return changes.map(change => ({
+    eventId,
+    userId,
+    modifiedColumn: change.column,
+    oldValue: change.oldValue,
+    newValue: change.newValue ?? ""
+  }));
+}
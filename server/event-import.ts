@@ -0,0 +1,161 @@
+import { db } from "../db";
+import { events, eventHistory } from "../db/schema";
+import type { Event } from "../db/schema";
+import { eq } from "drizzle-orm";
+import {
+  parseEventMarkdown,
+  type MarkdownParseError,
+  type ParsedMarkdownEvent,
+} from "../client/src/lib/eventMarkdownParser";
+import { isSameJSTDay } from "../client/src/lib/eventDates";
+import { diffEvent, diffEventTags, toHistoryRows, type EventChange } from "./event-history";
+import { attachEventTags, findOrCreateTagIds, getEventTagNames, replaceEventTags } from "./event-tags";
+
+export type ImportStatus = "new" | "changed" | "unchanged";
+
+export interface ImportPlanItem {
+  status: ImportStatus;
+  eventId: number | null;
+  event: ParsedMarkdownEvent;
+  changedColumns: EventChange["column"][];
+}
+
+export interface ImportPlan {
+  items: ImportPlanItem[];
+  errors: MarkdownParseError[];
+  summary: Record<ImportStatus, number>;
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  unchanged: number;
+}
+
+// マークダウンを解析し、データベースのイベントと比較した取り込み計画を作る
+export async function buildImportPlan(markdown: string): Promise<ImportPlan> {
+  const { events: parsedEvents, errors } = parseEventMarkdown(markdown);
+  const existingEvents = await attachEventTags(await db.select().from(events));
+  const matchedIds = new Set<number>();
+
+  const items = parsedEvents.map((parsed): ImportPlanItem => {
+    const existing = findExistingEvent(existingEvents, parsed, matchedIds);
+    if (!existing) {
+      return { status: "new", eventId: null, event: parsed, changedColumns: [] };
+    }
+
+    matchedIds.add(existing.id);
+    const changes = [
+      ...diffEvent(existing, toEventUpdates(existing, parsed)),
+      ...(parsed.tagNames ? diffEventTags(existing.tags.map(tag => tag.name), parsed.tagNames) : []),
+    ];
+    return {
+      status: changes.length > 0 ? "changed" : "unchanged",
+      eventId: existing.id,
+      event: parsed,
+      changedColumns: changes.map(change => change.column),
+    };
+  });
+
+  return {
+    items,
+    errors,
+    summary: {
+      new: items.filter(item => item.status === "new").length,
+      changed: items.filter(item => item.status === "changed").length,
+      unchanged: items.filter(item => item.status === "unchanged").length,
+    },
+  };
+}
+
+// 取り込み計画を1つのトランザクションで反映する
+export async function applyImportPlan(plan: ImportPlan, userId: number): Promise<ImportResult> {
+  await db.transaction(async (tx) => {
+    for (const item of plan.items) {
+      const { tagNames, ...parsedEvent } = item.event;
+
+      if (item.status === "new") {
+        const [created] = await tx.insert(events).values({
+          ...parsedEvent,
+          createdBy: userId,
+          isArchived: false,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }).returning({ id: events.id });
+        if (tagNames?.length) {
+          await replaceEventTags(tx, created.id, await findOrCreateTagIds(tx, tagNames));
+        }
+        continue;
+      }
+
+      if (item.status !== "changed" || item.eventId === null) continue;
+
+      const [existing] = await tx
+        .select()
+        .from(events)
+        .where(eq(events.id, item.eventId))
+        .limit(1);
+      if (!existing) {
+        throw new Error(`イベントが見つかりません: ${item.event.name}`);
+      }
+
+      const updates = toEventUpdates(existing, parsedEvent);
+      const changes = diffEvent(existing, updates);
+      // 「タグ:」の項目があるイベントだけタグを置き換える
+      if (tagNames) {
+        const tagChanges = diffEventTags(await getEventTagNames(tx, item.eventId), tagNames);
+        if (tagChanges.length > 0) {
+          await replaceEventTags(tx, item.eventId, await findOrCreateTagIds(tx, tagNames));
+          changes.push(...tagChanges);
+        }
+      }
+      if (changes.length === 0) continue;
+
+      await tx.update(events)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(events.id, item.eventId));
+      await tx.insert(eventHistory).values(toHistoryRows(item.eventId, userId, changes));
+    }
+  });
+
+  return {
+    created: plan.summary.new,
+    updated: plan.summary.changed,
+    unchanged: plan.summary.unchanged,
+  };
+}
+
+// 名前と開催日（日本時間）が一致するイベントに対応付ける。
+// 毎年同じ名前で開催されるイベントがあるため、日付の違う同名のイベントは別のイベントとして扱う
+function findExistingEvent<T extends Event>(
+  existingEvents: T[],
+  parsed: ParsedMarkdownEvent,
+  matchedIds: Set<number>
+): T | undefined {
+  return existingEvents.find(
+    event =>
+      event.name.trim() === parsed.name &&
+      isSameJSTDay(event.date, parsed.date) &&
+      !matchedIds.has(event.id)
+  );
+}
+
+// マークダウンには日付と整形後の説明文しか残らないため、
+// 同じ日付や空白だけの違いは変更とみなさず既存の値を残す
+function toEventUpdates<T extends Omit<ParsedMarkdownEvent, "tagNames">>(existing: Event, parsed: T): T {
+  const description =
+    normalizeWhitespace(existing.description) === normalizeWhitespace(parsed.description)
+      ? existing.description
+      : parsed.description;
+  const date = isSameJSTDay(existing.date, parsed.date) ? existing.date : parsed.date;
+  const endDate =
+    existing.endDate && parsed.endDate && isSameJSTDay(existing.endDate, parsed.endDate)
+      ? existing.endDate
+      : parsed.endDate;
+
+  return { ...parsed, date, endDate, description };
+}
+
+function normalizeWhitespace(value: string | null): string {
+  return (value ?? "").replace(/\s+/g, " ").trim();
+}
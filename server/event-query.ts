@@ -0,0 +1,251 @@
+import { z } from "zod";
+import { db } from "../db";
+import { events, eventTags, tags } from "../db/schema";
+import type { Event, EventWithTags } from "../db/schema";
+import { and, asc, count, desc, eq, gt, gte, inArray, isNull, lt, or, sql } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import { prefectures } from "../client/src/lib/prefectures";
+import { parseCsvDate } from "../client/src/lib/eventCsv";
+import { parseTagNames } from "../client/src/lib/eventTags";
+import { matchesEventSearch } from "../client/src/lib/eventSearch";
+import type { EventPage } from "../client/src/lib/eventPage";
+import { attachEventTags } from "./event-tags";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// limit を省略してカーソルだけ指定したときの件数
+export const DEFAULT_PAGE_SIZE = 50;
+// 検索語があるときに一度に読み込む件数
+const SEARCH_BATCH_SIZE = 200;
+const regions: string[] = Array.from(new Set(prefectures.map(p => p.region)));
+
+export const eventSortKeys = ["date", "name", "updatedAt"] as const;
+type EventSortKey = typeof eventSortKeys[number];
+type CursorValue = [string | number, number];
+
+// YYYY-MM-DD（日本時間の日付）を受け付ける
+const jstDateParam = z.string().transform((value, ctx) => {
+  const date = parseCsvDate(value);
+  if (!date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `日付の形式が正しくありません: ${value}` });
+    return z.NEVER;
+  }
+  return date;
+});
+
+// カーソルは [並び替えの値, イベントID] を base64url にしたもの
+const cursorParam = z.string().transform((value, ctx) => {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (
+      Array.isArray(decoded) && decoded.length === 2 &&
+      (typeof decoded[0] === "string" || typeof decoded[0] === "number") &&
+      Number.isInteger(decoded[1])
+    ) {
+      return decoded as CursorValue;
+    }
+  } catch {
+    // 下でエラーとして扱う
+  }
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: "カーソルが不正です" });
+  return z.NEVER;
+});
+
+export const eventQuerySchema = z.object({
+  from: jstDateParam.optional(),
+  to: jstDateParam.optional(),
+  // 都道府県名（東京都）またはローマ字の ID（tokyo）
+  prefecture: z.string().trim().optional().transform((value, ctx) => {
+    if (!value) return undefined;
+    const prefecture = prefectures.find(p => p.name === value || p.id === value.toLowerCase());
+    if (!prefecture) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `不明な都道府県です: ${value}` });
+      return z.NEVER;
+    }
+    return prefecture.name;
+  }),
+  region: z.string().trim().optional().refine(
+    value => !value || regions.includes(value),
+    value => ({ message: `不明な地方です: ${value}` })
+  ),
+  archived: z.enum(["false", "true", "all"]).default("false"),
+  tags: z.union([z.string(), z.array(z.string())]).optional().transform(parseTagNames),
+  q: z.string().optional(),
+  sort: z.enum(eventSortKeys).default("date"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1, "limit は1以上で指定してください").max(500, "limit は500以下で指定してください").optional(),
+  cursor: cursorParam.optional(),
+}).refine(
+  query => !query.from || !query.to || query.from.getTime() <= query.to.getTime(),
+  { message: "to は from 以降の日付を指定してください", path: ["to"] }
+);
+
+export type EventQuery = z.infer<typeof eventQuerySchema>;
+
+// limit か cursor を指定したときだけページ単位（EventPage）で返す
+export function isPagedQuery(query: EventQuery): boolean {
+  return query.limit !== undefined || query.cursor !== undefined;
+}
+
+// 日時はミリ秒にそろえて比較する（カーソルにはミリ秒で入れるため）
+function getSortColumn(sort: EventSortKey): SQL {
+  switch (sort) {
+    case "name":
+      return sql`${events.name}`;
+    case "updatedAt":
+      return sql`date_trunc('milliseconds', ${events.updatedAt})`;
+    case "date":
+    default:
+      return sql`date_trunc('milliseconds', ${events.date})`;
+  }
+}
+
+function getSortValue(event: Event, sort: EventSortKey): string | number {
+  switch (sort) {
+    case "name":
+      return event.name;
+    case "updatedAt":
+      return new Date(event.updatedAt).getTime();
+    case "date":
+    default:
+      return new Date(event.date).getTime();
+  }
+}
+
+function getCursorKey(event: Event, sort: EventSortKey): CursorValue {
+  return [getSortValue(event, sort), event.id];
+}
+
+function encodeCursor(key: CursorValue): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+// (並び替えの値, ID) がカーソルより後ろの行
+function buildCursorCondition(query: EventQuery, cursor: CursorValue): SQL | undefined {
+  const [value, id] = cursor;
+  const column = getSortColumn(query.sort);
+  // 日時の列は drizzle と同じく ISO 形式の文字列で渡す
+  const sortValue = query.sort === "name" ? String(value) : new Date(Number(value)).toISOString();
+  const after = query.order === "asc" ? gt : lt;
+  return or(
+    after(column, sortValue),
+    and(eq(column, sortValue), after(events.id, id))
+  );
+}
+
+function buildOrderBy(query: EventQuery): SQL[] {
+  const direction = query.order === "asc" ? asc : desc;
+  return [direction(getSortColumn(query.sort)), direction(events.id)];
+}
+
+function buildConditions(query: EventQuery): SQL[] {
+  const conditions: (SQL | undefined)[] = [];
+
+  if (query.archived !== "all") {
+    conditions.push(eq(events.isArchived, query.archived === "true"));
+  }
+  // 期間が重なるイベント（終了日がなければ開催日で判定）
+  if (query.from) {
+    conditions.push(or(
+      gte(events.endDate, query.from),
+      and(isNull(events.endDate), gte(events.date, query.from))
+    ));
+  }
+  if (query.to) {
+    conditions.push(lt(events.date, new Date(query.to.getTime() + DAY_MS)));
+  }
+  if (query.prefecture) {
+    conditions.push(eq(events.prefecture, query.prefecture));
+  }
+  if (query.region) {
+    conditions.push(inArray(
+      events.prefecture,
+      prefectures.filter(p => p.region === query.region).map(p => p.name)
+    ));
+  }
+  if (query.tags.length > 0) {
+    conditions.push(inArray(
+      events.id,
+      db.select({ eventId: eventTags.eventId })
+        .from(eventTags)
+        .innerJoin(tags, eq(tags.id, eventTags.tagId))
+        .where(inArray(tags.name, query.tags))
+    ));
+  }
+
+  return conditions.filter((condition): condition is SQL => condition !== undefined);
+}
+
+function selectEvents(conditions: (SQL | undefined)[], query: EventQuery, limit?: number) {
+  const statement = db
+    .select()
+    .from(events)
+    .where(and(...conditions))
+    .orderBy(...buildOrderBy(query));
+  return limit === undefined ? statement : statement.limit(limit);
+}
+
+// 条件に一致するイベントをすべて並び替えて返す（ページ指定のない GET /api/events）
+export async function queryAllEvents(query: EventQuery): Promise<EventWithTags[]> {
+  const rows = await selectEvents(buildConditions(query), query);
+  // かな・全角半角を吸収する検索は SQL では表現しづらいため取得後に絞り込む
+  return attachEventTags(rows.filter(event => matchesEventSearch(event, query.q ?? "")));
+}
+
+// 条件で絞り込み、並び替えたイベントをカーソルの位置から limit 件返す。
+// 並び替え・カーソル・件数は SQL で扱い、検索語での絞り込みだけ取得後に行う
+export async function queryEvents(query: EventQuery): Promise<EventPage> {
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const conditions = buildConditions(query);
+  // 次のページがあるか確かめるため1件多く取得する
+  const rows = query.q?.trim()
+    ? await selectMatchingEvents(conditions, query, limit + 1)
+    : await selectEvents(
+        [...conditions, query.cursor && buildCursorCondition(query, query.cursor)],
+        query,
+        limit + 1
+      );
+  const page = rows.slice(0, limit);
+
+  return {
+    events: await attachEventTags(page),
+    total: await countEvents(conditions, query),
+    nextCursor: rows.length > limit
+      ? encodeCursor(getCursorKey(page[page.length - 1], query.sort))
+      : null
+  };
+}
+
+// 検索語に一致するイベントが limit 件集まるまで、カーソルを進めながら少しずつ読み込む
+async function selectMatchingEvents(conditions: SQL[], query: EventQuery, limit: number): Promise<Event[]> {
+  const matched: Event[] = [];
+  let cursor = query.cursor;
+  while (matched.length < limit) {
+    const rows = await selectEvents(
+      [...conditions, cursor && buildCursorCondition(query, cursor)],
+      query,
+      SEARCH_BATCH_SIZE
+    );
+    matched.push(...rows.filter(event => matchesEventSearch(event, query.q ?? "")));
+    if (rows.length < SEARCH_BATCH_SIZE) break;
+    cursor = getCursorKey(rows[rows.length - 1], query.sort);
+  }
+  return matched.slice(0, limit);
+}
+
+async function countEvents(conditions: SQL[], query: EventQuery): Promise<number> {
+  if (!query.q?.trim()) {
+    const [{ value }] = await db.select({ value: count() }).from(events).where(and(...conditions));
+    return value;
+  }
+  // 検索語があるときは、検索に使う列だけを読み込んで数える
+  const rows = await db
+    .select({
+      name: events.name,
+      description: events.description,
+      prefecture: events.prefecture,
+      website: events.website,
+    })
+    .from(events)
+    .where(and(...conditions));
+  return rows.filter(row => matchesEventSearch(row, query.q ?? "")).length;
+}
@@ -0,0 +1,72 @@
+import { db } from "../db";
+import { eventTags, tags } from "../db/schema";
+import type { Event, Tag } from "../db/schema";
+import { eq, inArray } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// イベントの一覧に付与されたタグを付けて返す
+export async function attachEventTags<T extends Event>(eventList: T[]): Promise<(T & { tags: Tag[] })[]> {
+  if (eventList.length === 0) return [];
+
+  const rows = await db
+    .select({ eventId: eventTags.eventId, tag: tags })
+    .from(eventTags)
+    .innerJoin(tags, eq(tags.id, eventTags.tagId))
+    .where(inArray(eventTags.eventId, eventList.map(event => event.id)))
+    .orderBy(tags.name);
+
+  return eventList.map(event => ({
+    ...event,
+    tags: rows.filter(row => row.eventId === event.id).map(row => row.tag)
+  }));
+}
+
+// イベントに付与されたタグ名（編集履歴の比較に使う）
+export async function getEventTagNames(tx: Transaction, eventId: number): Promise<string[]> {
+  const rows = await tx
+    .select({ name: tags.name })
+    .from(eventTags)
+    .innerJoin(tags, eq(tags.id, eventTags.tagId))
+    .where(eq(eventTags.eventId, eventId));
+  return rows.map(row => row.name);
+}
+
+// タグ名に対応するタグの ID を返す（まだないタグは作成する）
+export async function findOrCreateTagIds(tx: Transaction, names: string[]): Promise<number[]> {
+  if (names.length === 0) return [];
+
+  await tx
+    .insert(tags)
+    .values(names.map(name => ({ name, createdAt: new Date(), updatedAt: new Date() })))
+    .onConflictDoNothing({ target: tags.name });
+  const rows = await tx
+    .select({ id: tags.id })
+    .from(tags)
+    .where(inArray(tags.name, names));
+  return rows.map(row => row.id);
+}
+
+// リクエストの tagIds（数値の配列）を正規化する。未指定なら undefined
+export function parseTagIds(value: unknown): number[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) return [];
+  const ids = value
+    .map(item => Number(item))
+    .filter(id => Number.isInteger(id) && id > 0);
+  return Array.from(new Set(ids));
+}
+
+// イベントのタグを指定した内容に置き換える（存在しないタグは無視する）
+export async function replaceEventTags(tx: Transaction, eventId: number, tagIds: number[]) {
+  await tx.delete(eventTags).where(eq(eventTags.eventId, eventId));
+  if (tagIds.length === 0) return;
+
+  const existingTags = await tx
+    .select({ id: tags.id })
+    .from(tags)
+    .where(inArray(tags.id, tagIds));
+  if (existingTags.length === 0) return;
+
+  await tx.insert(eventTags).values(existingTags.map(tag => ({ eventId, tagId: tag.id })));
+}
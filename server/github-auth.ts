@@ -7,6 +7,21 @@ interface GitHubUpdateResponse {
   }
 }
 
+interface GitHubPullRequestOptions {
+  branch: string;
+  baseBranch?: string | null;
+  title: string;
+  body: string;
+}
+
+interface GitHubPullRequestResponse extends GitHubUpdateResponse {
+  pullRequest: {
+    number: number;
+    url: string;
+    created: boolean;
+  }
+}
+
 export class GitHubAppService {
   private readonly appId: string | undefined;
   private readonly privateKey: string | undefined;
@@ -77,7 +92,8 @@ export class GitHubAppService {
   async getCurrentFileContent(
     owner: string,
     repo: string,
-    path: string
+    path: string,
+    branch?: string | null
   ): Promise<string> {
     const octokit = await this.getOctokit();
     try {
@@ -85,6 +101,7 @@ export class GitHubAppService {
         owner,
         repo,
         path,
+        ...(branch ? { ref: branch } : {}),
       });
 
       if (Array.isArray(currentFile)) {
@@ -102,12 +119,46 @@ export class GitHubAppService {
     }
   }
 
+  // 既存ファイルの SHA を返す（まだ存在しない場合は null）
+  private async getFileSha(
+    octokit: Octokit,
+    owner: string,
+    repo: string,
+    path: string,
+    branch?: string | null
+  ): Promise<string | null> {
+    try {
+      const { data: currentFile } = await octokit.repos.getContent({
+        owner,
+        repo,
+        path,
+        ...(branch ? { ref: branch } : {}),
+      });
+
+      if (Array.isArray(currentFile)) {
+        throw new Error('Unexpected response: path points to a directory');
+      }
+
+      if (!('sha' in currentFile)) {
+        throw new Error('File SHA not found in response');
+      }
+
+      return currentFile.sha;
+    } catch (error: any) {
+      if (error?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   async updateAllEventsFile(
     newContent: string,
     owner: string,
     repo: string,
     path: string,
-    commitMessage: string = 'Update all-events.md'
+    commitMessage: string = 'Update all-events.md',
+    branch?: string | null
   ): Promise<GitHubUpdateResponse> {
     const config = this.validateConfig();
     if (!config.isValid) {
@@ -119,41 +170,189 @@ export class GitHubAppService {
       console.log('Octokit initialized successfully');
 
       // Get current file to get its SHA
-      const { data: currentFile } = await octokit.repos.getContent({
+      const sha = await this.getFileSha(octokit, owner, repo, path, branch);
+
+      console.log(sha ? 'Current file fetched successfully' : 'File does not exist yet');
+
+      // Update file
+      const { data } = await octokit.repos.createOrUpdateFileContents({
         owner,
         repo,
         path,
+        message: commitMessage,
+        content: Buffer.from(newContent).toString('base64'),
+        ...(sha ? { sha } : {}),
+        ...(branch ? { branch } : {}),
       });
 
-      if (Array.isArray(currentFile)) {
-        throw new Error('Unexpected response: path points to a directory');
+      console.log('File updated successfully');
+
+      if (!data.commit?.sha) {
+        throw new Error('Commit SHA not found in response');
       }
 
-      if (!('sha' in currentFile)) {
-        throw new Error('File SHA not found in response');
+      return { commit: { sha: data.commit.sha } };
+    } catch (error) {
+      console.error('File update failed:', error);
+      throw error;
+    }
+  }
+
+  // 作業ブランチから作成したプルリクエストが開いているか
+  async hasOpenPullRequest(
+    owner: string,
+    repo: string,
+    branch: string,
+    baseBranch?: string | null
+  ): Promise<boolean> {
+    const octokit = await this.getOctokit();
+    const { data: openPulls } = await octokit.pulls.list({
+      owner,
+      repo,
+      head: `${owner}:${branch}`,
+      state: 'open',
+      ...(baseBranch ? { base: baseBranch } : {}),
+    });
+    return openPulls.length > 0;
+  }
+
+  // 作業ブランチから作成したプルリクエストが最後にマージされた日時（マージされていなければ null）
+  async getLastMergedPullRequestAt(
+    owner: string,
+    repo: string,
+    branch: string
+  ): Promise<Date | null> {
+    const octokit = await this.getOctokit();
+    const { data: closedPulls } = await octokit.pulls.list({
+      owner,
+      repo,
+      head: `${owner}:${branch}`,
+      state: 'closed',
+      sort: 'updated',
+      direction: 'desc',
+    });
+
+    const mergedAt = closedPulls
+      .map(pull => pull.merged_at)
+      .filter((value): value is string => !!value)
+      .map(value => new Date(value))
+      .sort((a, b) => b.getTime() - a.getTime());
+    return mergedAt[0] ?? null;
+  }
+
+  // 作業ブランチにコミットし、1つのプルリクエストを作成または更新し続ける
+  async updateAllEventsFileViaPullRequest(
+    newContent: string,
+    owner: string,
+    repo: string,
+    path: string,
+    commitMessage: string,
+    options: GitHubPullRequestOptions
+  ): Promise<GitHubPullRequestResponse> {
+    const config = this.validateConfig();
+    if (!config.isValid) {
+      throw new Error(config.message);
+    }
+
+    try {
+      const octokit = await this.getOctokit();
+      console.log('Octokit initialized successfully');
+
+      const baseBranch = options.baseBranch
+        || (await octokit.repos.get({ owner, repo })).data.default_branch;
+
+      const { data: baseRef } = await octokit.git.getRef({
+        owner,
+        repo,
+        ref: `heads/${baseBranch}`,
+      });
+
+      const { data: openPulls } = await octokit.pulls.list({
+        owner,
+        repo,
+        head: `${owner}:${options.branch}`,
+        base: baseBranch,
+        state: 'open',
+      });
+      const existingPull = openPulls[0];
+
+      const branchExists = await octokit.git
+        .getRef({ owner, repo, ref: `heads/${options.branch}` })
+        .then(() => true)
+        .catch((error) => {
+          if (error?.status === 404) return false;
+          throw error;
+        });
+
+      if (!branchExists) {
+        await octokit.git.createRef({
+          owner,
+          repo,
+          ref: `refs/heads/${options.branch}`,
+          sha: baseRef.object.sha,
+        });
+        console.log(`Branch ${options.branch} created`);
+      } else if (!existingPull) {
+        // 前回のプルリクエストがマージ・クローズ済みならデフォルトブランチから作り直す
+        await octokit.git.updateRef({
+          owner,
+          repo,
+          ref: `heads/${options.branch}`,
+          sha: baseRef.object.sha,
+          force: true,
+        });
+        console.log(`Branch ${options.branch} reset to ${baseBranch}`);
       }
 
-      console.log('Current file fetched successfully');
+      const sha = await this.getFileSha(octokit, owner, repo, path, options.branch);
 
-      // Update file
       const { data } = await octokit.repos.createOrUpdateFileContents({
         owner,
         repo,
         path,
+        branch: options.branch,
         message: commitMessage,
         content: Buffer.from(newContent).toString('base64'),
-        sha: currentFile.sha,
+        ...(sha ? { sha } : {}),
       });
 
-      console.log('File updated successfully');
-
       if (!data.commit?.sha) {
         throw new Error('Commit SHA not found in response');
       }
 
-      return { commit: { sha: data.commit.sha } };
+      console.log(`File committed to ${options.branch}`);
+
+      if (existingPull) {
+        const { data: pull } = await octokit.pulls.update({
+          owner,
+          repo,
+          pull_number: existingPull.number,
+          title: options.title,
+          body: options.body,
+        });
+        console.log(`Pull request #${pull.number} updated`);
+        return {
+          commit: { sha: data.commit.sha },
+          pullRequest: { number: pull.number, url: pull.html_url, created: false },
+        };
+      }
+
+      const { data: pull } = await octokit.pulls.create({
+        owner,
+        repo,
+        head: options.branch,
+        base: baseBranch,
+        title: options.title,
+        body: options.body,
+      });
+      console.log(`Pull request #${pull.number} created`);
+
+      return {
+        commit: { sha: data.commit.sha },
+        pullRequest: { number: pull.number, url: pull.html_url, created: true },
+      };
     } catch (error) {
-      console.error('File update failed:', error);
+      console.error('Pull request update failed:', error);
       throw error;
     }
   }
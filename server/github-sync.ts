@@ -0,0 +1,535 @@
+import { createHash } from "crypto";
+import { format } from "date-fns";
+import { db } from "../db";
+import { events, eventHistory, syncTargets, syncRuns } from "../db/schema";
+import type {
+  SyncLogEntry,
+  SyncMode,
+  SyncRun,
+  SyncRunStatus,
+  SyncTargetFormat,
+  SyncTargetResult,
+  SyncTrigger,
+} from "../db/schema";
+import { eq, desc, gt, inArray } from "drizzle-orm";
+import { GitHubAppService } from "./github-auth";
+import { createUnifiedDiff } from "./unified-diff";
+import { attachEventTags } from "./event-tags";
+import { generateEventMarkdown, stripMarkdownTimestamp, type MarkdownEvent } from "../client/src/lib/eventMarkdown";
+import { generateEventCalendar } from "../client/src/lib/eventCalendar";
+
+// プルリクエストモードで使い回す作業ブランチ
+const SYNC_PULL_REQUEST_BRANCH = 'scrumfestmap/update-all-events';
+
+// プレビューで確認した後に同期内容が変わった場合のエラー
+export const SYNC_CONTENT_CHANGED_MESSAGE = "確認した後にイベントが更新されました。もう一度内容を確認してから同期してください";
+
+// 別の同期（手動または定期）が実行中の場合のエラー
+export const SYNC_IN_PROGRESS_MESSAGE = "別の同期を実行中です。終わってからもう一度同期してください";
+
+// 同じファイルの SHA をもとに同時にコミットしないよう、同期は一度に1つだけ実行する
+let isSyncRunning = false;
+
+// 過去に成功した同期がない場合は、サーバー起動以降の編集をコミットメッセージに含める
+const serverStartedAt = new Date();
+
+interface EventChangeSummary {
+  eventName: string;
+  modifiedColumn: string;
+  modifiedAt: Date;
+}
+
+type SyncTarget = typeof syncTargets.$inferSelect;
+
+interface SyncTargetContent {
+  target: SyncTarget;
+  content: string;
+}
+
+interface SyncOptions {
+  mode: SyncMode;
+  triggeredBy: number | null;
+  trigger?: SyncTrigger;
+  // 公開中のファイルと内容が同じ同期先にはコミットしない
+  onlyIfChanged?: boolean;
+  // プレビューで確認した内容のハッシュ。内容が変わっていれば同期しない
+  contentHash?: string;
+}
+
+export interface SyncPreviewTarget {
+  targetId: number;
+  target: string;
+  format: SyncTargetFormat;
+  // 差分の比較先のブランチ（null はリポジトリの既定のブランチ）
+  comparedBranch: string | null;
+  // 比較先にファイルがない場合は新規作成になる
+  isNewFile: boolean;
+  hasChanges: boolean;
+  commitMessage: string;
+  diff: string;
+}
+
+export interface SyncPreview {
+  // 同期の確定時に送り返してもらい、プレビュー後に内容が変わっていないか確かめる
+  contentHash: string;
+  changeSummary: string | null;
+  targets: SyncPreviewTarget[];
+}
+
+export interface SyncRunOutcome {
+  run: SyncRun;
+  results: SyncTargetResult[];
+  error?: string;
+}
+
+export function checkGitHubConfig(): { isConfigured: boolean; message?: string } {
+  const appId = process.env.GITHUB_APP_ID;
+  const privateKey = process.env.GITHUB_PRIVATE_KEY;
+  const installationId = process.env.GITHUB_INSTALLATION_ID;
+
+  if (!appId || !privateKey || !installationId) {
+    return {
+      isConfigured: false,
+      message: "GitHub連携機能は現在利用できません。環境変数の設定が必要です。"
+    };
+  }
+
+  return { isConfigured: true };
+}
+
+export function createGitHubService(): GitHubAppService {
+  return new GitHubAppService(
+    process.env.GITHUB_APP_ID,
+    process.env.GITHUB_PRIVATE_KEY,
+    process.env.GITHUB_INSTALLATION_ID
+  );
+}
+
+export function generateMarkdown(events: MarkdownEvent[]): string {
+  return generateEventMarkdown(events, {
+    includeMapLink: true,
+    includeTimestamp: true
+  });
+}
+
+export function generateSyncContent(format: SyncTargetFormat, events: MarkdownEvent[]): string {
+  switch (format) {
+    case "ics":
+      return generateEventCalendar(events);
+    case "markdown":
+    default:
+      return generateMarkdown(events);
+  }
+}
+
+// 同期1回分のログを sync_runs に書き込みながら蓄積する
+class SyncRunLogger {
+  readonly logs: SyncLogEntry[] = [];
+
+  constructor(private readonly runId: number) {}
+
+  async add(type: SyncLogEntry['type'], title: string, details: any) {
+    this.logs.push({
+      timestamp: new Date().toISOString(),
+      type,
+      title,
+      details
+    });
+    await db.update(syncRuns).set({ logs: this.logs }).where(eq(syncRuns.id, this.runId));
+  }
+}
+
+// 別の同期が実行中なら実行せずに null を返す
+export async function runGitHubSync(options: SyncOptions): Promise<SyncRunOutcome | null> {
+  if (isSyncRunning) return null;
+
+  isSyncRunning = true;
+  try {
+    return await executeGitHubSync(options);
+  } finally {
+    isSyncRunning = false;
+  }
+}
+
+async function executeGitHubSync(options: SyncOptions): Promise<SyncRunOutcome> {
+  const [run] = await db
+    .insert(syncRuns)
+    .values({
+      mode: options.mode,
+      triggeredBy: options.triggeredBy,
+      trigger: options.trigger ?? 'manual',
+      status: 'running',
+      startedAt: new Date()
+    })
+    .returning();
+
+  const logger = new SyncRunLogger(run.id);
+  await logger.add('info', 'Starting GitHub sync process', {
+    timestamp: run.startedAt.toISOString(),
+    mode: options.mode,
+    trigger: run.trigger
+  });
+
+  const results: SyncTargetResult[] = [];
+  let changeSummary: string | null = null;
+
+  try {
+    const github = createGitHubService();
+
+    const { eventCount, contents } = await buildSyncContents();
+
+    await logger.add('info', 'Events fetched from database', {
+      count: eventCount
+    });
+
+    if (options.contentHash && options.contentHash !== hashSyncContents(contents)) {
+      throw new Error(SYNC_CONTENT_CHANGED_MESSAGE);
+    }
+
+    const lastEventChanges = await getEventChangesSinceLastSync();
+    changeSummary = summarizeChanges(lastEventChanges);
+
+    for (const { target, content } of contents) {
+      const targetLabel = `${target.owner}/${target.repo}/${target.path}`;
+      const commitMessage = generateCommitMessage(target.path, lastEventChanges);
+
+      await logger.add('info', 'Content generated', {
+        target: targetLabel,
+        format: target.format,
+        contentLength: content.length
+      });
+
+      try {
+        if (options.onlyIfChanged && await isPublishedContentUnchanged(github, target, content)) {
+          await logger.add('info', 'No changes detected', {
+            target: targetLabel
+          });
+
+          results.push({
+            targetId: target.id,
+            target: targetLabel,
+            success: true,
+            unchanged: true
+          });
+          continue;
+        }
+
+        if (options.mode === 'pull-request') {
+          // 作業ブランチは前回の公開から変更を積み重ねるため、本文もその間の編集をすべて載せる
+          const publishedAt = await getLastPublishedAt(github, target);
+          const unpublishedChanges = await getEventChangesSince(publishedAt);
+          const result = await github.updateAllEventsFileViaPullRequest(
+            content,
+            target.owner,
+            target.repo,
+            target.path,
+            commitMessage,
+            {
+              branch: SYNC_PULL_REQUEST_BRANCH,
+              baseBranch: target.branch,
+              title: `Update ${target.path}`,
+              body: generatePullRequestBody(target.path, unpublishedChanges)
+            }
+          );
+
+          await logger.add('info', 'Pull request update succeeded', {
+            target: targetLabel,
+            commitSha: result.commit.sha,
+            pullRequest: result.pullRequest
+          });
+
+          results.push({
+            targetId: target.id,
+            target: targetLabel,
+            success: true,
+            commitSha: result.commit.sha,
+            pullRequestUrl: result.pullRequest.url
+          });
+          continue;
+        }
+
+        const result = await github.updateAllEventsFile(
+          content,
+          target.owner,
+          target.repo,
+          target.path,
+          commitMessage,
+          target.branch
+        );
+
+        await logger.add('info', 'File update succeeded', {
+          target: targetLabel,
+          commitSha: result.commit.sha
+        });
+
+        results.push({
+          targetId: target.id,
+          target: targetLabel,
+          success: true,
+          commitSha: result.commit.sha
+        });
+      } catch (error) {
+        console.error(`Sync error for ${targetLabel}:`, error);
+        await logger.add('error', 'Target sync failed', {
+          target: targetLabel,
+          error: error instanceof Error ? error.message : String(error)
+        });
+
+        results.push({
+          targetId: target.id,
+          target: targetLabel,
+          success: false,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+    const status: SyncRunStatus = results.every(result => result.unchanged)
+      ? 'unchanged'
+      : succeeded === results.length
+        ? 'succeeded'
+        : succeeded > 0 ? 'partial' : 'failed';
+
+    const finishedRun = await finishSyncRun(run.id, logger, {
+      status,
+      results,
+      changeSummary
+    });
+
+    return {
+      run: finishedRun,
+      results,
+      error: status === 'failed'
+        ? results.map(result => `${result.target}: ${result.error}`).join('\n')
+        : undefined
+    };
+  } catch (error) {
+    console.error('Sync error:', error);
+    await logger.add('error', 'Sync process error', {
+      error: error instanceof Error ? {
+        message: error.message,
+        stack: error.stack
+      } : String(error)
+    });
+
+    const finishedRun = await finishSyncRun(run.id, logger, {
+      status: 'failed',
+      results,
+      changeSummary
+    });
+
+    return {
+      run: finishedRun,
+      results,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+// 同期した場合にコミットされる内容を、コミット先のファイルとの差分として返す。
+// プルリクエストで同期する場合、開いているプルリクエストがあれば作業ブランチと比較する
+export async function previewGitHubSync(mode: SyncMode): Promise<SyncPreview> {
+  const github = createGitHubService();
+  const { contents } = await buildSyncContents();
+  const lastEventChanges = await getEventChangesSinceLastSync();
+  const previews: SyncPreviewTarget[] = [];
+
+  for (const { target, content } of contents) {
+    const comparedBranch = mode === 'pull-request'
+      && await github.hasOpenPullRequest(target.owner, target.repo, SYNC_PULL_REQUEST_BRANCH, target.branch)
+      ? SYNC_PULL_REQUEST_BRANCH
+      : target.branch;
+    const published = await fetchPublishedContent(github, target, comparedBranch);
+    const diff = createUnifiedDiff(
+      published ?? "",
+      content,
+      published === null ? "/dev/null" : `a/${target.path}`,
+      `b/${target.path}`
+    );
+
+    previews.push({
+      targetId: target.id,
+      target: `${target.owner}/${target.repo}/${target.path}`,
+      format: target.format,
+      comparedBranch,
+      isNewFile: published === null,
+      hasChanges: published === null
+        || normalizeSyncContent(target.format, published) !== normalizeSyncContent(target.format, content),
+      commitMessage: generateCommitMessage(target.path, lastEventChanges),
+      diff
+    });
+  }
+
+  return {
+    contentHash: hashSyncContents(contents),
+    changeSummary: summarizeChanges(lastEventChanges),
+    targets: previews
+  };
+}
+
+// 現在の同期内容のハッシュ（プレビューで返したものと比べる）
+export async function getSyncContentHash(): Promise<string> {
+  const { contents } = await buildSyncContents();
+  return hashSyncContents(contents);
+}
+
+// 有効な同期先ごとに、公開するファイルの内容を作る
+async function buildSyncContents(): Promise<{ eventCount: number; contents: SyncTargetContent[] }> {
+  const allEvents = await attachEventTags(await db
+    .select()
+    .from(events)
+    .where(eq(events.isArchived, false))
+    .orderBy(desc(events.date)));
+
+  const targets = await db
+    .select()
+    .from(syncTargets)
+    .where(eq(syncTargets.isEnabled, true))
+    .orderBy(syncTargets.id);
+
+  if (targets.length === 0) {
+    throw new Error("同期先が設定されていません。管理者ダッシュボードで同期先を登録してください");
+  }
+
+  return {
+    eventCount: allEvents.length,
+    contents: targets.map(target => ({ target, content: generateSyncContent(target.format, allEvents) }))
+  };
+}
+
+// 作成日時の行は同期のたびに変わるため除いてハッシュにする
+function hashSyncContents(contents: SyncTargetContent[]): string {
+  const hash = createHash('sha256');
+  for (const { target, content } of contents) {
+    hash.update(JSON.stringify([target.id, target.owner, target.repo, target.branch, target.path, target.format]));
+    hash.update(normalizeSyncContent(target.format, content));
+  }
+  return hash.digest('hex');
+}
+
+// 作成日時の行だけが異なる場合は変更なしとみなす
+async function isPublishedContentUnchanged(
+  github: GitHubAppService,
+  target: SyncTarget,
+  content: string
+): Promise<boolean> {
+  const published = await fetchPublishedContent(github, target, target.branch);
+  if (published === null) {
+    return false;
+  }
+
+  return normalizeSyncContent(target.format, published) === normalizeSyncContent(target.format, content);
+}
+
+// ブランチにある同期先のファイルの内容（まだ存在しない場合は null）
+async function fetchPublishedContent(
+  github: GitHubAppService,
+  target: SyncTarget,
+  branch: string | null
+): Promise<string | null> {
+  try {
+    return await github.getCurrentFileContent(target.owner, target.repo, target.path, branch);
+  } catch (error: any) {
+    if (error?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function normalizeSyncContent(format: SyncTargetFormat, content: string): string {
+  return format === "markdown" ? stripMarkdownTimestamp(content) : content;
+}
+
+async function finishSyncRun(
+  runId: number,
+  logger: SyncRunLogger,
+  values: { status: SyncRunStatus; results: SyncTargetResult[]; changeSummary: string | null }
+): Promise<SyncRun> {
+  const [run] = await db
+    .update(syncRuns)
+    .set({
+      ...values,
+      commitSha: values.results.find(result => result.commitSha)?.commitSha ?? null,
+      finishedAt: new Date(),
+      logs: logger.logs
+    })
+    .where(eq(syncRuns.id, runId))
+    .returning();
+  return run;
+}
+
+// 前回成功した同期の開始以降に記録された編集履歴
+async function getEventChangesSinceLastSync(): Promise<EventChangeSummary[]> {
+  const [lastRun] = await db
+    .select({ startedAt: syncRuns.startedAt })
+    .from(syncRuns)
+    .where(inArray(syncRuns.status, ['succeeded', 'partial']))
+    .orderBy(desc(syncRuns.startedAt))
+    .limit(1);
+
+  return getEventChangesSince(lastRun?.startedAt ?? serverStartedAt);
+}
+
+// 同期先のブランチに最後に反映された編集の時点。直接コミットした同期、
+// マージされたプルリクエストに最後にコミットした同期、公開中の内容と同じだった同期のうち最新の開始日時
+async function getLastPublishedAt(
+  github: GitHubAppService,
+  target: SyncTarget
+): Promise<Date> {
+  const mergedAt = await github.getLastMergedPullRequestAt(target.owner, target.repo, SYNC_PULL_REQUEST_BRANCH);
+
+  const runs = await db
+    .select({ mode: syncRuns.mode, startedAt: syncRuns.startedAt, results: syncRuns.results })
+    .from(syncRuns)
+    .where(inArray(syncRuns.status, ['succeeded', 'partial', 'unchanged']))
+    .orderBy(desc(syncRuns.startedAt));
+
+  const lastPublishedRun = runs.find(run => run.results.some(result =>
+    result.targetId === target.id && result.success && (
+      run.mode === 'direct' || result.unchanged || (mergedAt !== null && run.startedAt <= mergedAt)
+    )
+  ));
+  return lastPublishedRun?.startedAt ?? serverStartedAt;
+}
+
+async function getEventChangesSince(since: Date): Promise<EventChangeSummary[]> {
+  return db
+    .select({
+      eventName: events.name,
+      modifiedColumn: eventHistory.modifiedColumn,
+      modifiedAt: eventHistory.modifiedAt
+    })
+    .from(eventHistory)
+    .innerJoin(events, eq(events.id, eventHistory.eventId))
+    .where(gt(eventHistory.modifiedAt, since))
+    .orderBy(desc(eventHistory.modifiedAt));
+}
+
+function summarizeChanges(changes: EventChangeSummary[]): string | null {
+  return changes.length > 0
+    ? changes.map(change => `${change.eventName} (${change.modifiedColumn})`).join(', ')
+    : null;
+}
+
+function generateCommitMessage(path: string, changes: EventChangeSummary[]): string {
+  if (changes.length === 0) {
+    return `Update ${path}`;
+  }
+  return `Update: ${changes[0].eventName}\n\n更新されたイベント:\n${summarizeChanges(changes)}`;
+}
+
+function generatePullRequestBody(path: string, changes: EventChangeSummary[]): string {
+  let body = `スクラムフェスマップから ${path} を再生成しました。\n\n`;
+
+  if (changes.length === 0) {
+    return body + '前回の公開以降に記録された編集はありません。\n';
+  }
+
+  body += '## 更新されたイベント\n\n';
+  body += changes
+    .map(change => `- ${change.eventName} (${change.modifiedColumn}) - ${format(change.modifiedAt, "yyyy/MM/dd HH:mm")}`)
+    .join('\n');
+  return body + '\n';
+}
@@ -3,6 +3,7 @@ import { setupRoutes } from "./routes";
 import { setupVite, serveStatic } from "./vite";
 import { createServer } from "http";
 import { setupAuth } from "./auth";
+import { startSyncScheduler } from "./sync-scheduler";
 import { db } from "../db";
 import path from "path";
 import { fileURLToPath } from "url";
@@ -149,6 +150,7 @@ async function startServer() {
       server.listen(Number(PORT), HOST, () => {
         log(`Server started in ${process.env.NODE_ENV || 'development'} mode`);
         log(`Listening on port ${PORT}`);
+        startSyncScheduler(log);
         resolve(server);
       });
     });
@@ -0,0 +1,92 @@
+import { db } from "../db";
+import { events } from "../db/schema";
+import { and, eq } from "drizzle-orm";
+import { formatEventPlace } from "../client/src/lib/eventVenue";
+import { formatJSTPeriod } from "./event-feed";
+
+const SITE_NAME = "スクラムフェスマップ";
+const SITE_DESCRIPTION = "日本各地で開催されるスクラムフェス・アジャイル関連イベントを地図で探せます";
+const DESCRIPTION_MAX_LENGTH = 120;
+const EVENT_PAGE_PATTERN = /^\/events\/(\d+)\/?$/;
+// client/public に置いた共有用の画像（512×512）
+const DEFAULT_IMAGE_PATH = "/og-image.png";
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  url: string;
+  image: string;
+}
+
+// URL に対応するページのタイトル・説明を返す（イベント詳細ページ以外はサイト共通）。
+// siteOrigin は og:url などの絶対 URL の起点（getSiteOrigin の値）
+export async function getPageMeta(originalUrl: string, siteOrigin: string): Promise<PageMeta> {
+  const pathname = originalUrl.split("?")[0];
+  const image = `${siteOrigin}${DEFAULT_IMAGE_PATH}`;
+  const defaultMeta = { title: SITE_NAME, description: SITE_DESCRIPTION, url: `${siteOrigin}${pathname}`, image };
+
+  const match = pathname.match(EVENT_PAGE_PATTERN);
+  if (!match) return defaultMeta;
+
+  try {
+    const [event] = await db
+      .select()
+      .from(events)
+      .where(and(eq(events.id, parseInt(match[1], 10)), eq(events.isArchived, false)))
+      .limit(1);
+    if (!event) return defaultMeta;
+
+    const summary = `${formatJSTPeriod(event)}・${formatEventPlace(event)}`;
+    const description = event.description?.trim()
+      ? `${summary}　${event.description.trim().replace(/\s+/g, " ")}`
+      : summary;
+
+    return {
+      title: `${event.name} | ${SITE_NAME}`,
+      description: description.length > DESCRIPTION_MAX_LENGTH
+        ? `${description.slice(0, DESCRIPTION_MAX_LENGTH - 1)}…`
+        : description,
+      url: `${siteOrigin}/events/${event.id}`,
+      image
+    };
+  } catch (error) {
+    // メタタグが作れなくてもページ自体は表示する
+    console.error("Error building page meta:", error);
+    return defaultMeta;
+  }
+}
+
+// index.html の <title> を、タイトルと OGP・Twitter カードのメタタグに置き換える
+export function injectPageMeta(html: string, meta: PageMeta): string {
+  const title = escapeHtml(meta.title);
+  const description = escapeHtml(meta.description);
+  const url = escapeHtml(meta.url);
+  const image = escapeHtml(meta.image);
+
+  const tags = [
+    `<title>${title}</title>`,
+    `<meta name="description" content="${description}" />`,
+    `<meta property="og:type" content="website" />`,
+    `<meta property="og:site_name" content="${SITE_NAME}" />`,
+    `<meta property="og:title" content="${title}" />`,
+    `<meta property="og:description" content="${description}" />`,
+    `<meta property="og:url" content="${url}" />`,
+    `<meta property="og:image" content="${image}" />`,
+    `<meta property="og:locale" content="ja_JP" />`,
+    `<meta name="twitter:card" content="summary" />`,
+    `<meta name="twitter:title" content="${title}" />`,
+    `<meta name="twitter:description" content="${description}" />`,
+    `<meta name="twitter:image" content="${image}" />`,
+  ].join("\n    ");
+
+  return html.replace(/<title>[\s\S]*?<\/title>/, () => tags);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
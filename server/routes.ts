@@ -4,36 +4,44 @@ import { prefectureCoordinates } from "../client/src/lib/prefectures";
 
 import { type Express, Request, Response, NextFunction } from "express";
 import { db } from "../db";
-import { users, events, eventHistory } from "../db/schema";
-import type { Event } from "../db/schema";
-import { eq, desc, gt } from "drizzle-orm";
-import { GitHubAppService } from './github-auth';
-
-// 同期状態の管理
-const syncState = {
-  lastSyncTime: null as Date | null,
-  lastLoginTime: new Date()
-};
-
-let syncDebugLogs: Array<{
-  timestamp: string;
-  type: 'info' | 'error';
-  title: string;
-  details: any;
-}> = [];
-
-function clearSyncDebugLogs() {
-  syncDebugLogs = [];
-}
-
-function addSyncDebugLog(type: 'info' | 'error', title: string, details: any) {
-  syncDebugLogs.push({
-    timestamp: new Date().toISOString(),
-    type,
-    title,
-    details
-  });
-}
+import {
+  users,
+  events,
+  eventHistory,
+  eventSeries,
+  tags,
+  eventTags,
+  syncTargets,
+  syncRuns,
+  insertSyncTargetSchema,
+  insertEventSeriesSchema,
+  insertTagSchema,
+  attendanceModes
+} from "../db/schema";
+import type { AttendanceMode, SyncMode } from "../db/schema";
+import { eq, desc, asc, and, isNotNull } from "drizzle-orm";
+import { canModifyEvent } from "../client/src/lib/eventPermissions";
+import { diffEvent, diffEventTags, toHistoryRows } from "./event-history";
+import { buildImportPlan, applyImportPlan } from "./event-import";
+import { buildCsvImportPlan, applyCsvImportPlan } from "./event-csv-import";
+import { attachEventTags, getEventTagNames, parseTagIds, replaceEventTags } from "./event-tags";
+import { eventQuerySchema, isPagedQuery, queryAllEvents, queryEvents } from "./event-query";
+import {
+  checkGitHubConfig,
+  createGitHubService,
+  generateMarkdown,
+  getSyncContentHash,
+  previewGitHubSync,
+  runGitHubSync,
+  SYNC_CONTENT_CHANGED_MESSAGE,
+  SYNC_IN_PROGRESS_MESSAGE
+} from "./github-sync";
+import { generateEventCalendar } from "../client/src/lib/eventCalendar";
+import { generateEventCsv } from "../client/src/lib/eventCsv";
+import { generateEventGeoJSON, generateEventKml } from "../client/src/lib/eventGeo";
+import { isSameJSTDay } from "../client/src/lib/eventDates";
+import { getFeedEntries, generateAtomFeed, generateJsonFeed } from "./event-feed";
+import { getSiteOrigin } from "./site-url";
 
 function requireAuth(req: Request, res: Response, next: NextFunction) {
   if (!req.isAuthenticated()) {
@@ -55,21 +63,6 @@ function requireAdmin(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
-function checkGitHubConfig(): { isConfigured: boolean; message?: string } {
-  const appId = process.env.GITHUB_APP_ID;
-  const privateKey = process.env.GITHUB_PRIVATE_KEY;
-  const installationId = process.env.GITHUB_INSTALLATION_ID;
-
-  if (!appId || !privateKey || !installationId) {
-    return {
-      isConfigured: false,
-      message: "GitHub連携機能は現在利用できません。環境変数の設定が必要です。"
-    };
-  }
-
-  return { isConfigured: true };
-}
-
 export function setupRoutes(app: Express) {
   app.get("/api/admin/users", requireAdmin, async (req, res) => {
     try {
@@ -134,8 +127,16 @@ export function setupRoutes(app: Express) {
 
   app.get("/api/admin/events", requireAdmin, async (req, res) => {
     try {
-      const allEvents = await db.select().from(events);
-      res.json(allEvents);
+      // 管理画面ではアーカイブ済みも含めて一覧する
+      const result = eventQuerySchema.safeParse({ archived: "all", ...req.query });
+      if (!result.success) {
+        return res.status(400).json({
+          error: "検索条件が不正です",
+          details: result.error.issues.map(i => i.message).join(", "),
+          status: 400
+        });
+      }
+      res.json(isPagedQuery(result.data) ? await queryEvents(result.data) : await queryAllEvents(result.data));
     } catch (error) {
       console.error("Error fetching events:", error);
       res.status(500).json({
@@ -146,19 +147,152 @@ export function setupRoutes(app: Express) {
     }
   });
   
-  app.post("/api/events", async (req, res) => {
+  app.post("/api/admin/events/import/preview", requireAdmin, async (req, res) => {
+    try {
+      const markdown = await resolveImportMarkdown(req.body?.markdown);
+      const plan = await buildImportPlan(markdown);
+      res.json(plan);
+    } catch (error) {
+      console.error("Error previewing markdown import:", error);
+      res.status(500).json({
+        error: "インポート内容の確認に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.post("/api/admin/events/import", requireAdmin, async (req, res) => {
+    try {
+      const markdown = await resolveImportMarkdown(req.body?.markdown);
+      const plan = await buildImportPlan(markdown);
+      if (plan.errors.length > 0) {
+        return res.status(400).json({
+          error: "マークダウンに読み取れないイベントがあります",
+          details: plan.errors,
+          status: 400
+        });
+      }
+
+      const result = await applyImportPlan(plan, req.user!.id);
+      res.json({
+        message: "イベントをインポートしました",
+        ...result,
+        status: 200
+      });
+    } catch (error) {
+      console.error("Error importing markdown:", error);
+      res.status(500).json({
+        error: "イベントのインポートに失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.get("/api/admin/events/export.csv", requireAdmin, async (req, res) => {
+    try {
+      const allEvents = await db.select().from(events);
+      const filename = `events-${format(new Date(), "yyyyMMdd-HHmm")}.csv`;
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(generateEventCsv(allEvents));
+    } catch (error) {
+      console.error("Error generating CSV:", error);
+      res.status(500).json({
+        error: "CSVの生成に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.post("/api/admin/events/import/csv/preview", requireAdmin, async (req, res) => {
+    if (typeof req.body?.csv !== "string" || req.body.csv.trim() === "") {
+      return res.status(400).json({ error: "CSVの内容がありません", status: 400 });
+    }
+
     try {
+      const plan = await buildCsvImportPlan(req.body.csv);
+      res.json(plan);
+    } catch (error) {
+      console.error("Error previewing CSV import:", error);
+      res.status(500).json({
+        error: "インポート内容の確認に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.post("/api/admin/events/import/csv", requireAdmin, async (req, res) => {
+    if (typeof req.body?.csv !== "string" || req.body.csv.trim() === "") {
+      return res.status(400).json({ error: "CSVの内容がありません", status: 400 });
+    }
+
+    try {
+      const plan = await buildCsvImportPlan(req.body.csv);
+      if (plan.errors.length > 0) {
+        return res.status(400).json({
+          error: "CSVに取り込めない行があります",
+          details: plan.errors,
+          status: 400
+        });
+      }
+
+      const result = await applyCsvImportPlan(plan, req.user!.id);
+      res.json({
+        message: "イベントをインポートしました",
+        ...result,
+        status: 200
+      });
+    } catch (error) {
+      console.error("Error importing CSV:", error);
+      res.status(500).json({
+        error: "イベントのインポートに失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.post("/api/events", requireAuth, async (req, res) => {
+    try {
+      const date = new Date(req.body.date);
+      const endDate = req.body.endDate ? new Date(req.body.endDate) : null;
+      const periodError = validateEventPeriod(date, endDate);
+      if (periodError) {
+        return res.status(400).json({ error: periodError, status: 400 });
+      }
+      const locationError = validateEventLocation(req.body.prefecture, req.body.attendanceMode);
+      if (locationError) {
+        return res.status(400).json({ error: locationError, status: 400 });
+      }
+
+      const { tagIds, ...body } = req.body;
       const eventData = {
-        ...req.body,
-        date: new Date(req.body.date),
+        ...body,
+        prefecture: req.body.prefecture ?? "",
+        date,
+        endDate,
         coordinates: req.body.coordinates?.trim() || null,
+        venueName: req.body.venueName?.trim() || null,
+        venueAddress: req.body.venueAddress?.trim() || null,
+        attendanceMode: req.body.attendanceMode ?? "onsite",
+        seriesId: parseSeriesId(req.body.seriesId),
+        createdBy: req.user!.id,
         isArchived: false,
         createdAt: new Date(),
         updatedAt: new Date()
       };
       
-      const newEvent = await db.insert(events).values(eventData).returning();
-      res.json(newEvent[0]);
+      const newEvent = await db.transaction(async (tx) => {
+        const [created] = await tx.insert(events).values(eventData).returning();
+        await replaceEventTags(tx, created.id, parseTagIds(tagIds) ?? []);
+        return created;
+      });
+      res.json(newEvent);
     } catch (error) {
       console.error("Error creating event:", error);
       res.status(500).json({
@@ -171,15 +305,32 @@ export function setupRoutes(app: Express) {
 
   app.get("/api/events", async (req, res) => {
     try {
-      console.log('[DEBUG] Fetching events from database');
-      const allEvents = await db
-        .select()
-        .from(events)
-        .where(eq(events.isArchived, false))
-        .orderBy(desc(events.date));
+      // ?tags=生成AI,テストエンジニアリング はいずれかのタグが付いたイベント、
+      // ?q= はイベント名・説明・開催地・Webサイトをかな・全角半角の違いを無視して検索する。
+      // limit・cursor を指定したときだけ { events, total, nextCursor } を返し、それ以外は従来どおり配列を返す
+      const result = eventQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "検索条件が不正です",
+          details: result.error.issues.map(i => i.message).join(", "),
+          status: 400
+        });
+      }
+      if (result.data.archived !== "false" && !req.user?.isAdmin) {
+        return res.status(403).json({
+          error: "アーカイブ済みのイベントは管理者のみ取得できます",
+          status: 403
+        });
+      }
 
-      console.log('[DEBUG] Found events:', allEvents.map(e => ({ id: e.id, name: e.name })));
-      res.json(allEvents);
+      if (isPagedQuery(result.data)) {
+        const page = await queryEvents(result.data);
+        console.log('[DEBUG] Found events:', page.total);
+        return res.json(page);
+      }
+      const eventList = await queryAllEvents(result.data);
+      console.log('[DEBUG] Found events:', eventList.length);
+      res.json(eventList);
     } catch (error) {
       console.error("Error fetching events:", error);
       res.status(500).json({
@@ -190,19 +341,450 @@ export function setupRoutes(app: Express) {
     }
   });
 
-  app.get("/api/admin/sync-debug-logs", requireAdmin, (req, res) => {
-    res.json(syncDebugLogs);
+  app.get("/api/series", async (req, res) => {
+    try {
+      const allSeries = await db.select().from(eventSeries).orderBy(eventSeries.name);
+      const editions = await db
+        .select({ seriesId: events.seriesId, date: events.date })
+        .from(events)
+        .where(and(eq(events.isArchived, false), isNotNull(events.seriesId)));
+
+      res.json(allSeries.map(series => {
+        const seriesEditions = editions.filter(edition => edition.seriesId === series.id);
+        return {
+          ...series,
+          editionCount: seriesEditions.length,
+          latestEditionDate: seriesEditions.reduce<Date | null>(
+            (latest, edition) => !latest || edition.date > latest ? edition.date : latest,
+            null
+          )
+        };
+      }));
+    } catch (error) {
+      console.error("Error fetching series:", error);
+      res.status(500).json({
+        error: "シリーズの取得に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
   });
 
-  app.post("/api/admin/clear-sync-debug-logs", requireAdmin, (req, res) => {
-    clearSyncDebugLogs();
-    res.json({ 
-      message: "デバッグログをクリアしました",
-      status: 200 
-    });
+  app.get("/api/series/:id", async (req, res) => {
+    try {
+      const seriesId = parseInt(req.params.id, 10);
+      const [series] = await db
+        .select()
+        .from(eventSeries)
+        .where(eq(eventSeries.id, seriesId))
+        .limit(1);
+
+      if (!series) {
+        return res.status(404).json({ error: "シリーズが見つかりません", status: 404 });
+      }
+
+      const editions = await db
+        .select()
+        .from(events)
+        .where(and(eq(events.seriesId, seriesId), eq(events.isArchived, false)))
+        .orderBy(asc(events.date));
+
+      res.json({ ...series, editions });
+    } catch (error) {
+      console.error("Error fetching series:", error);
+      res.status(500).json({
+        error: "シリーズの取得に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.post("/api/admin/series", requireAdmin, async (req, res) => {
+    try {
+      const result = insertEventSeriesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "シリーズの設定が不正です",
+          details: result.error.issues.map(i => i.message).join(", "),
+          status: 400
+        });
+      }
+
+      const [series] = await db
+        .insert(eventSeries)
+        .values({
+          name: result.data.name,
+          website: result.data.website || null,
+          homePrefecture: result.data.homePrefecture || null,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        })
+        .returning();
+      res.json(series);
+    } catch (error) {
+      console.error("Error creating series:", error);
+      res.status(isUniqueViolation(error) ? 400 : 500).json({
+        error: isUniqueViolation(error) ? "同じ名前のシリーズが既にあります" : "シリーズの登録に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: isUniqueViolation(error) ? 400 : 500
+      });
+    }
+  });
+
+  app.put("/api/admin/series/:id", requireAdmin, async (req, res) => {
+    try {
+      const seriesId = parseInt(req.params.id, 10);
+      const result = insertEventSeriesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "シリーズの設定が不正です",
+          details: result.error.issues.map(i => i.message).join(", "),
+          status: 400
+        });
+      }
+
+      const [series] = await db
+        .update(eventSeries)
+        .set({
+          name: result.data.name,
+          website: result.data.website || null,
+          homePrefecture: result.data.homePrefecture || null,
+          updatedAt: new Date()
+        })
+        .where(eq(eventSeries.id, seriesId))
+        .returning();
+
+      if (!series) {
+        return res.status(404).json({ error: "シリーズが見つかりません", status: 404 });
+      }
+      res.json(series);
+    } catch (error) {
+      console.error("Error updating series:", error);
+      res.status(isUniqueViolation(error) ? 400 : 500).json({
+        error: isUniqueViolation(error) ? "同じ名前のシリーズが既にあります" : "シリーズの更新に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: isUniqueViolation(error) ? 400 : 500
+      });
+    }
+  });
+
+  // シリーズを削除しても各回のイベントは残る（series_id は NULL になる）
+  app.delete("/api/admin/series/:id", requireAdmin, async (req, res) => {
+    try {
+      const seriesId = parseInt(req.params.id, 10);
+      const [series] = await db
+        .delete(eventSeries)
+        .where(eq(eventSeries.id, seriesId))
+        .returning();
+
+      if (!series) {
+        return res.status(404).json({ error: "シリーズが見つかりません", status: 404 });
+      }
+      res.json({ success: true, message: "シリーズを削除しました" });
+    } catch (error) {
+      console.error("Error deleting series:", error);
+      res.status(500).json({
+        error: "シリーズの削除に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.get("/api/tags", async (req, res) => {
+    try {
+      const allTags = await db.select().from(tags).orderBy(tags.name);
+      const usages = await db
+        .select({ tagId: eventTags.tagId })
+        .from(eventTags)
+        .innerJoin(events, eq(events.id, eventTags.eventId))
+        .where(eq(events.isArchived, false));
+
+      res.json(allTags.map(tag => ({
+        ...tag,
+        eventCount: usages.filter(usage => usage.tagId === tag.id).length
+      })));
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      res.status(500).json({
+        error: "タグの取得に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.post("/api/admin/tags", requireAdmin, async (req, res) => {
+    try {
+      const result = insertTagSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "タグの設定が不正です",
+          details: result.error.issues.map(i => i.message).join(", "),
+          status: 400
+        });
+      }
+
+      const [tag] = await db
+        .insert(tags)
+        .values({
+          name: result.data.name,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        })
+        .returning();
+      res.json(tag);
+    } catch (error) {
+      console.error("Error creating tag:", error);
+      res.status(isUniqueViolation(error) ? 400 : 500).json({
+        error: isUniqueViolation(error) ? "同じ名前のタグが既にあります" : "タグの登録に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: isUniqueViolation(error) ? 400 : 500
+      });
+    }
+  });
+
+  app.put("/api/admin/tags/:id", requireAdmin, async (req, res) => {
+    try {
+      const tagId = parseInt(req.params.id, 10);
+      const result = insertTagSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "タグの設定が不正です",
+          details: result.error.issues.map(i => i.message).join(", "),
+          status: 400
+        });
+      }
+
+      const [tag] = await db
+        .update(tags)
+        .set({ name: result.data.name, updatedAt: new Date() })
+        .where(eq(tags.id, tagId))
+        .returning();
+
+      if (!tag) {
+        return res.status(404).json({ error: "タグが見つかりません", status: 404 });
+      }
+      res.json(tag);
+    } catch (error) {
+      console.error("Error updating tag:", error);
+      res.status(isUniqueViolation(error) ? 400 : 500).json({
+        error: isUniqueViolation(error) ? "同じ名前のタグが既にあります" : "タグの更新に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: isUniqueViolation(error) ? 400 : 500
+      });
+    }
+  });
+
+  // タグを削除すると各イベントからも外れる（event_tags は CASCADE で削除される）
+  app.delete("/api/admin/tags/:id", requireAdmin, async (req, res) => {
+    try {
+      const tagId = parseInt(req.params.id, 10);
+      const [tag] = await db
+        .delete(tags)
+        .where(eq(tags.id, tagId))
+        .returning();
+
+      if (!tag) {
+        return res.status(404).json({ error: "タグが見つかりません", status: 404 });
+      }
+      res.json({ success: true, message: "タグを削除しました" });
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      res.status(500).json({
+        error: "タグの削除に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.get("/api/admin/sync-targets", requireAdmin, async (req, res) => {
+    try {
+      const targets = await db.select().from(syncTargets).orderBy(syncTargets.id);
+      res.json(targets);
+    } catch (error) {
+      console.error("Error fetching sync targets:", error);
+      res.status(500).json({
+        error: "同期先の取得に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.post("/api/admin/sync-targets", requireAdmin, async (req, res) => {
+    try {
+      const result = insertSyncTargetSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "同期先の設定が不正です",
+          details: result.error.issues.map(i => i.message).join(", "),
+          status: 400
+        });
+      }
+
+      const [target] = await db
+        .insert(syncTargets)
+        .values({
+          ...result.data,
+          branch: result.data.branch || null,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        })
+        .returning();
+      res.json(target);
+    } catch (error) {
+      console.error("Error creating sync target:", error);
+      res.status(500).json({
+        error: "同期先の登録に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.put("/api/admin/sync-targets/:id", requireAdmin, async (req, res) => {
+    try {
+      const targetId = parseInt(req.params.id, 10);
+      const result = insertSyncTargetSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "同期先の設定が不正です",
+          details: result.error.issues.map(i => i.message).join(", "),
+          status: 400
+        });
+      }
+
+      const [target] = await db
+        .update(syncTargets)
+        .set({
+          owner: result.data.owner,
+          repo: result.data.repo,
+          branch: result.data.branch || null,
+          path: result.data.path,
+          format: result.data.format,
+          isEnabled: result.data.isEnabled ?? true,
+          updatedAt: new Date()
+        })
+        .where(eq(syncTargets.id, targetId))
+        .returning();
+
+      if (!target) {
+        return res.status(404).json({ error: "同期先が見つかりません", status: 404 });
+      }
+      res.json(target);
+    } catch (error) {
+      console.error("Error updating sync target:", error);
+      res.status(500).json({
+        error: "同期先の更新に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.delete("/api/admin/sync-targets/:id", requireAdmin, async (req, res) => {
+    try {
+      const targetId = parseInt(req.params.id, 10);
+      await db.delete(syncTargets).where(eq(syncTargets.id, targetId));
+      res.json({ message: "同期先を削除しました", status: 200 });
+    } catch (error) {
+      console.error("Error deleting sync target:", error);
+      res.status(500).json({
+        error: "同期先の削除に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.get("/api/admin/sync-runs", requireAdmin, async (req, res) => {
+    try {
+      const runs = await db
+        .select({
+          id: syncRuns.id,
+          startedAt: syncRuns.startedAt,
+          finishedAt: syncRuns.finishedAt,
+          triggeredBy: syncRuns.triggeredBy,
+          trigger: syncRuns.trigger,
+          username: users.username,
+          mode: syncRuns.mode,
+          status: syncRuns.status,
+          commitSha: syncRuns.commitSha,
+          changeSummary: syncRuns.changeSummary,
+          results: syncRuns.results
+        })
+        .from(syncRuns)
+        .leftJoin(users, eq(users.id, syncRuns.triggeredBy))
+        .orderBy(desc(syncRuns.startedAt))
+        .limit(50);
+
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching sync runs:", error);
+      res.status(500).json({
+        error: "同期履歴の取得に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.get("/api/admin/sync-runs/:id", requireAdmin, async (req, res) => {
+    try {
+      const runId = parseInt(req.params.id, 10);
+      const [run] = await db
+        .select({
+          run: syncRuns,
+          username: users.username
+        })
+        .from(syncRuns)
+        .leftJoin(users, eq(users.id, syncRuns.triggeredBy))
+        .where(eq(syncRuns.id, runId))
+        .limit(1);
+
+      if (!run) {
+        return res.status(404).json({ error: "同期履歴が見つかりません", status: 404 });
+      }
+
+      res.json({ ...run.run, username: run.username });
+    } catch (error) {
+      console.error("Error fetching sync run:", error);
+      res.status(500).json({
+        error: "同期履歴の取得に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  // 同期せずに、コミットされる内容との差分とコミットメッセージを返す
+  app.post("/api/admin/sync-github/preview", requireAdmin, async (req, res) => {
+    const githubConfig = checkGitHubConfig();
+    if (!githubConfig.isConfigured) {
+      return res.status(503).json({
+        error: "GitHub同期は現在利用できません",
+        details: githubConfig.message,
+        status: 503
+      });
+    }
+
+    try {
+      const mode: SyncMode = req.body?.mode === 'pull-request' ? 'pull-request' : 'direct';
+      res.json(await previewGitHubSync(mode));
+    } catch (error) {
+      console.error("Error previewing sync:", error);
+      res.status(500).json({
+        error: "同期内容の確認に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
   });
 
-  app.post("/api/admin/sync-github", requireAuth, async (req, res) => {
+  app.post("/api/admin/sync-github", requireAdmin, async (req, res) => {
     const githubConfig = checkGitHubConfig();
     if (!githubConfig.isConfigured) {
       return res.status(503).json({
@@ -212,103 +794,231 @@ export function setupRoutes(app: Express) {
       });
     }
 
-    clearSyncDebugLogs();
-    addSyncDebugLog('info', 'Starting GitHub sync process', {
-      timestamp: new Date().toISOString()
+    // プレビューで確認した内容のまま同期する
+    const contentHash = req.body?.contentHash;
+    if (typeof contentHash !== 'string' || contentHash === '') {
+      return res.status(400).json({
+        error: "同期内容を確認してから同期してください",
+        details: "contentHash が指定されていません",
+        status: 400
+      });
+    }
+    try {
+      if (contentHash !== await getSyncContentHash()) {
+        return res.status(409).json({
+          error: SYNC_CONTENT_CHANGED_MESSAGE,
+          status: 409
+        });
+      }
+    } catch (error) {
+      console.error("Error checking sync content:", error);
+      return res.status(500).json({
+        error: "同期内容の確認に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+
+    const mode: SyncMode = req.body?.mode === 'pull-request' ? 'pull-request' : 'direct';
+    const outcome = await runGitHubSync({
+      mode,
+      triggeredBy: req.user!.id,
+      contentHash
     });
+    if (!outcome) {
+      return res.status(409).json({
+        error: SYNC_IN_PROGRESS_MESSAGE,
+        status: 409
+      });
+    }
+
+    const { run, results, error } = outcome;
 
+    if (run.status === 'failed') {
+      return res.status(500).json({
+        error: "同期処理中にエラーが発生しました",
+        details: error,
+        status: 500,
+        runId: run.id,
+        results,
+        debugLogs: run.logs
+      });
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+    return res.status(run.status === 'succeeded' ? 200 : 207).json({
+      success: run.status === 'succeeded',
+      message: run.status === 'succeeded'
+        ? `${results.length}件の同期先にイベント一覧を同期しました`
+        : `${results.length}件中${succeeded}件の同期先にイベント一覧を同期しました`,
+      runId: run.id,
+      commitSha: run.commitSha,
+      results,
+      debugLogs: run.logs
+    });
+  });
+
+  app.get("/api/events/download", async (req, res) => {
     try {
-      const github = new GitHubAppService(
-        process.env.GITHUB_APP_ID,
-        process.env.GITHUB_PRIVATE_KEY,
-        process.env.GITHUB_INSTALLATION_ID
-      );
+      const allEvents = await db
+        .select()
+        .from(events)
+        .where(eq(events.isArchived, false))
+        .orderBy(desc(events.date));
+
+      const markdown = generateMarkdown(await attachEventTags(allEvents));
+      const filename = `all-events-${format(new Date(), "yyyyMMdd-HHmm")}.md`;
+      
+      res.setHeader('Content-Type', 'text/markdown');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(markdown);
+    } catch (error) {
+      console.error("Error generating markdown:", error);
+      res.status(500).json({
+        error: "マークダウンの生成に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
 
+  app.get("/api/events/export.geojson", async (req, res) => {
+    try {
       const allEvents = await db
         .select()
         .from(events)
         .where(eq(events.isArchived, false))
         .orderBy(desc(events.date));
 
-      addSyncDebugLog('info', 'Events fetched from database', {
-        count: allEvents.length
+      res.setHeader('Content-Type', 'application/geo+json; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="scrumfestmap.geojson"');
+      res.send(JSON.stringify(generateEventGeoJSON(allEvents), null, 2));
+    } catch (error) {
+      console.error("Error generating GeoJSON:", error);
+      res.status(500).json({
+        error: "GeoJSONの生成に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
       });
+    }
+  });
 
-      const markdownContent = generateMarkdown(allEvents);
+  app.get("/api/events/export.kml", async (req, res) => {
+    try {
+      const allEvents = await db
+        .select()
+        .from(events)
+        .where(eq(events.isArchived, false))
+        .orderBy(desc(events.date));
 
-      addSyncDebugLog('info', 'Markdown generated', {
-        contentLength: markdownContent.length
+      res.setHeader('Content-Type', 'application/vnd.google-earth.kml+xml; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="scrumfestmap.kml"');
+      res.send(generateEventKml(allEvents));
+    } catch (error) {
+      console.error("Error generating KML:", error);
+      res.status(500).json({
+        error: "KMLの生成に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
       });
+    }
+  });
 
-      // Get latest event history entries since last sync
-      const lastEventChanges = await db
+  app.get("/api/events/:id/history", requireAuth, async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id, 10);
+      const history = await db
         .select({
-          eventName: events.name,
+          id: eventHistory.id,
+          eventId: eventHistory.eventId,
+          userId: eventHistory.userId,
+          modifiedAt: eventHistory.modifiedAt,
           modifiedColumn: eventHistory.modifiedColumn,
-          modifiedAt: eventHistory.modifiedAt
+          oldValue: eventHistory.oldValue,
+          newValue: eventHistory.newValue,
+          username: users.username,
+          eventName: events.name
         })
         .from(eventHistory)
+        .innerJoin(users, eq(users.id, eventHistory.userId))
         .innerJoin(events, eq(events.id, eventHistory.eventId))
-        .where(
-          syncState.lastSyncTime 
-            ? gt(eventHistory.modifiedAt, syncState.lastSyncTime)
-            : gt(eventHistory.modifiedAt, syncState.lastLoginTime)
-        )
+        .where(eq(eventHistory.eventId, eventId))
         .orderBy(desc(eventHistory.modifiedAt));
 
-      // 同期状態を更新
-      syncState.lastSyncTime = new Date();
-
-      // Generate commit message
-      let commitMessage = 'Update all-events.md';
-      if (lastEventChanges.length > 0) {
-        const latestEvent = lastEventChanges[0];
-        commitMessage = `Update: ${latestEvent.eventName}`;
-        
-        const changesSummary = lastEventChanges
-          .map(change => `${change.eventName} (${change.modifiedColumn})`)
-          .join(', ');
-        commitMessage += `\n\n更新されたイベント:\n${changesSummary}`;
-      }
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching event history:", error);
+      res.status(500).json({
+        error: "編集履歴の取得に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
 
-      const result = await github.updateAllEventsFile(
-        markdownContent,
-        'kawaguti',
-        'ScrumFestMapViewer',
-        'all-events.md',
-        commitMessage
-      );
+  app.get("/api/events/feed.atom", async (req, res) => {
+    try {
+      const entries = await getFeedEntries();
+      const siteOrigin = getSiteOrigin(req);
+      const feedUrl = `${siteOrigin}${req.originalUrl}`;
 
-      addSyncDebugLog('info', 'File update succeeded', {
-        commitSha: result.commit.sha
+      res.setHeader('Content-Type', 'application/atom+xml; charset=utf-8');
+      res.send(generateAtomFeed(entries, feedUrl, siteOrigin));
+    } catch (error) {
+      console.error("Error generating Atom feed:", error);
+      res.status(500).json({
+        error: "フィードの生成に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
       });
+    }
+  });
 
-      return res.json({
-        success: true,
-        message: "GitHubリポジトリにイベント一覧を同期しました",
-        commitSha: result.commit.sha,
-        debugLogs: syncDebugLogs
-      });
+  app.get("/api/events/feed.json", async (req, res) => {
+    try {
+      const entries = await getFeedEntries();
+      const siteOrigin = getSiteOrigin(req);
+      const feedUrl = `${siteOrigin}${req.originalUrl}`;
 
+      res.setHeader('Content-Type', 'application/feed+json; charset=utf-8');
+      res.send(JSON.stringify(generateJsonFeed(entries, feedUrl, siteOrigin)));
     } catch (error) {
-      console.error('Sync error:', error);
-      addSyncDebugLog('error', 'Sync process error', {
-        error: error instanceof Error ? {
-          message: error.message,
-          stack: error.stack
-        } : String(error)
+      console.error("Error generating JSON feed:", error);
+      res.status(500).json({
+        error: "フィードの生成に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
       });
+    }
+  });
 
-      return res.status(500).json({
-        error: "同期処理中にエラーが発生しました",
-        details: error instanceof Error ? error.message : String(error),
-        status: 500,
-        debugLogs: syncDebugLogs
+  // トップページの「最新の更新」表示用
+  app.get("/api/latest-update", async (req, res) => {
+    try {
+      const [latest] = await getFeedEntries(1);
+      if (!latest) {
+        return res.json(null);
+      }
+
+      res.json({
+        modifiedAt: latest.updatedAt,
+        username: latest.username ?? "不明なユーザー",
+        eventName: latest.event.name,
+        eventId: latest.event.id,
+        kind: latest.kind,
+        summary: latest.summary
+      });
+    } catch (error) {
+      console.error("Error fetching latest update:", error);
+      res.status(500).json({
+        error: "最新の更新情報の取得に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
       });
     }
   });
 
-  app.get("/api/events/download", async (req, res) => {
+  app.get("/api/events/calendar.ics", async (req, res) => {
     try {
       const allEvents = await db
         .select()
@@ -316,42 +1026,153 @@ export function setupRoutes(app: Express) {
         .where(eq(events.isArchived, false))
         .orderBy(desc(events.date));
 
-      const markdown = generateMarkdown(allEvents);
-      const filename = `all-events-${format(new Date(), "yyyyMMdd-HHmm")}.md`;
-      
-      res.setHeader('Content-Type', 'text/markdown');
-      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-      res.send(markdown);
+      const calendar = generateEventCalendar(allEvents);
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'inline; filename="scrumfestmap.ics"');
+      res.send(calendar);
     } catch (error) {
-      console.error("Error generating markdown:", error);
+      console.error("Error generating calendar:", error);
       res.status(500).json({
-        error: "マークダウンの生成に失敗しました",
+        error: "カレンダーの生成に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.get("/api/events/:id/calendar.ics", async (req, res) => {
+    try {
+      const eventId = parseInt(req.params.id, 10);
+      const [event] = await db
+        .select()
+        .from(events)
+        .where(eq(events.id, eventId))
+        .limit(1);
+
+      if (!event || event.isArchived) {
+        return res.status(404).json({ error: "イベントが見つかりません", status: 404 });
+      }
+
+      const calendar = generateEventCalendar([event], { calendarName: event.name });
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="event-${event.id}.ics"`);
+      res.send(calendar);
+    } catch (error) {
+      console.error("Error generating event calendar:", error);
+      res.status(500).json({
+        error: "カレンダーの生成に失敗しました",
         details: error instanceof Error ? error.message : "不明なエラー",
         status: 500
       });
     }
   });
 
-  app.put("/api/events/:id", async (req, res) => {
+  // /api/events/feed.atom などの固定パスより後に登録する
+  app.get("/api/events/:id", async (req, res) => {
+    try {
+      if (!/^\d+$/.test(req.params.id)) {
+        return res.status(404).json({ error: "イベントが見つかりません", status: 404 });
+      }
+
+      const [event] = await db
+        .select()
+        .from(events)
+        .where(and(eq(events.id, parseInt(req.params.id, 10)), eq(events.isArchived, false)))
+        .limit(1);
+
+      if (!event) {
+        return res.status(404).json({ error: "イベントが見つかりません", status: 404 });
+      }
+
+      const [eventWithTags] = await attachEventTags([event]);
+      res.json(eventWithTags);
+    } catch (error) {
+      console.error("Error fetching event:", error);
+      res.status(500).json({
+        error: "イベントの取得に失敗しました",
+        details: error instanceof Error ? error.message : "不明なエラー",
+        status: 500
+      });
+    }
+  });
+
+  app.put("/api/events/:id", requireAuth, async (req, res) => {
     console.log('Updating event:', req.params.id, 'with data:', req.body);
     try {
       const eventId = parseInt(req.params.id, 10);
-      const updatedEvent = await db.update(events)
-        .set({
-          name: req.body.name,
-          prefecture: req.body.prefecture,
-          date: new Date(req.body.date),
-          website: req.body.website,
-          description: req.body.description,
-          youtubePlaylist: req.body.youtubePlaylist,
-          coordinates: req.body.coordinates ? req.body.coordinates.trim() : null,
-          updatedAt: new Date()
-        })
-        .where(eq(events.id, eventId));
-      
-      if (!updatedEvent || updatedEvent.rowCount === 0) {
-          return res.status(404).json({ error: "Event not found", status: 404});
+      const [currentEvent] = await db
+        .select()
+        .from(events)
+        .where(eq(events.id, eventId))
+        .limit(1);
+
+      if (!currentEvent) {
+        return res.status(404).json({ error: "Event not found", status: 404});
       }
+
+      if (!canModifyEvent(req.user, currentEvent)) {
+        return res.status(403).json({
+          error: "このイベントを編集する権限がありません",
+          status: 403
+        });
+      }
+
+      const date = new Date(req.body.date);
+      const endDate = req.body.endDate ? new Date(req.body.endDate) : null;
+      const periodError = validateEventPeriod(date, endDate);
+      if (periodError) {
+        return res.status(400).json({ error: periodError, status: 400 });
+      }
+      const attendanceMode = req.body.attendanceMode ?? currentEvent.attendanceMode;
+      const locationError = validateEventLocation(req.body.prefecture, attendanceMode);
+      if (locationError) {
+        return res.status(400).json({ error: locationError, status: 400 });
+      }
+
+      const updates = {
+        name: req.body.name,
+        prefecture: req.body.prefecture ?? "",
+        date,
+        endDate,
+        website: req.body.website,
+        description: req.body.description,
+        youtubePlaylist: req.body.youtubePlaylist,
+        coordinates: req.body.coordinates ? req.body.coordinates.trim() : null,
+        venueName: req.body.venueName?.trim() || null,
+        venueAddress: req.body.venueAddress?.trim() || null,
+        attendanceMode,
+        seriesId: req.body.seriesId === undefined ? currentEvent.seriesId : parseSeriesId(req.body.seriesId),
+      };
+
+      const changes = diffEvent(currentEvent, updates);
+      const tagIds = parseTagIds(req.body.tagIds);
+
+      await db.transaction(async (tx) => {
+        // タグだけを変更した場合も履歴に残す
+        if (tagIds) {
+          const currentTagNames = await getEventTagNames(tx, eventId);
+          await replaceEventTags(tx, eventId, tagIds);
+          changes.push(...diffEventTags(currentTagNames, await getEventTagNames(tx, eventId)));
+        }
+
+        // 何も変わっていなければ更新日時を進めない（フィードに更新として載せない）
+        if (changes.length === 0) return;
+
+        await tx.update(events)
+          .set({
+            ...updates,
+            updatedAt: new Date()
+          })
+          .where(eq(events.id, eventId));
+
+        // 変更された項目ごとに編集履歴を記録
+        await tx.insert(eventHistory).values(
+          toHistoryRows(eventId, req.user!.id, changes)
+        );
+      });
+
       res.json({ message: "Event updated successfully", status: 200});
     } catch (error) {
         console.error("Error updating event:", error);
@@ -359,11 +1180,41 @@ export function setupRoutes(app: Express) {
     }
   });
 
-  app.delete("/api/events/:id", async (req, res) => {
+  app.delete("/api/events/:id", requireAuth, async (req, res) => {
     try {
       const eventId = parseInt(req.params.id, 10);
-      await db.delete(events).where(eq(events.id, eventId));
-      
+      const [currentEvent] = await db
+        .select()
+        .from(events)
+        .where(eq(events.id, eventId))
+        .limit(1);
+
+      if (!currentEvent || currentEvent.isArchived) {
+        return res.status(404).json({
+          success: false,
+          error: "イベントが見つかりません",
+          status: 404
+        });
+      }
+
+      if (!canModifyEvent(req.user, currentEvent)) {
+        return res.status(403).json({
+          success: false,
+          error: "このイベントを削除する権限がありません",
+          status: 403
+        });
+      }
+
+      // 編集履歴を残すため、行は削除せずアーカイブする（公開中の一覧や同期の対象から外れる）
+      await db.transaction(async (tx) => {
+        await tx.update(events)
+          .set({ isArchived: true, updatedAt: new Date() })
+          .where(eq(events.id, eventId));
+        await tx.insert(eventHistory).values(
+          toHistoryRows(eventId, req.user!.id, diffEvent(currentEvent, { isArchived: true }))
+        );
+      });
+
       res.status(200).json({ 
         success: true,
         message: "イベントを削除しました"
@@ -379,11 +1230,59 @@ export function setupRoutes(app: Express) {
   });
 }
 
-import { generateEventMarkdown } from "../client/src/lib/eventMarkdown";
+function validateEventPeriod(date: Date, endDate: Date | null): string | null {
+  if (isNaN(date.getTime())) {
+    return "開催日が不正です";
+  }
+  if (endDate && (isNaN(endDate.getTime()) || (endDate < date && !isSameJSTDay(endDate, date)))) {
+    return "終了日は開始日以降の日付を入力してください";
+  }
+  return null;
+}
 
-function generateMarkdown(events: Event[]): string {
-  return generateEventMarkdown(events, {
-    includeMapLink: true,
-    includeTimestamp: true
-  });
-}
\ No newline at end of file
+// PostgreSQL の一意制約違反
+function isUniqueViolation(error: unknown): boolean {
+  return typeof error === "object" && error !== null && (error as { code?: string }).code === "23505";
+}
+
+function parseSeriesId(value: unknown): number | null {
+  const seriesId = Number(value);
+  return value !== null && value !== "" && Number.isInteger(seriesId) && seriesId > 0 ? seriesId : null;
+}
+
+// オンラインのみのイベント以外は開催都道府県が必須
+function validateEventLocation(prefecture: unknown, attendanceMode: unknown): string | null {
+  if (!attendanceModes.includes(attendanceMode as AttendanceMode)) {
+    return "開催形式が不正です";
+  }
+  if (attendanceMode !== "online" && (typeof prefecture !== "string" || prefecture.trim() === "")) {
+    return "開催都道府県を選択してください";
+  }
+  return null;
+}
+
+// 本文にマークダウンがなければ、マークダウン形式の同期先で公開中のファイルを読み込む
+async function resolveImportMarkdown(markdown: unknown): Promise<string> {
+  if (typeof markdown === "string" && markdown.trim() !== "") {
+    return markdown;
+  }
+
+  const githubConfig = checkGitHubConfig();
+  if (!githubConfig.isConfigured) {
+    throw new Error(githubConfig.message);
+  }
+
+  const [target] = await db
+    .select()
+    .from(syncTargets)
+    .where(and(eq(syncTargets.isEnabled, true), eq(syncTargets.format, "markdown")))
+    .orderBy(syncTargets.id)
+    .limit(1);
+
+  if (!target) {
+    throw new Error("マークダウン形式の同期先が設定されていません");
+  }
+
+  const github = createGitHubService();
+  return github.getCurrentFileContent(target.owner, target.repo, target.path, target.branch);
+}
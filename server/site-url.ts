@@ -0,0 +1,8 @@
+import type { Request } from "express";
+
+// 公開している URL の起点（例: https://scrumfestmap.kawaguti.dev）。
+// SITE_URL が設定されていればそれを、なければリクエストのホストを使う
+export function getSiteOrigin(req: Request): string {
+  const configured = process.env.SITE_URL?.trim().replace(/\/+$/, "");
+  return configured || `${req.protocol}://${req.get("host")}`;
+}
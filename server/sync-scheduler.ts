@@ -0,0 +1,54 @@
+import { checkGitHubConfig, runGitHubSync } from "./github-sync";
+
+const MINUTE_MS = 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+
+// GITHUB_SYNC_INTERVAL_MINUTES の間隔で同期する（未設定または 0 なら定期同期しない）
+function getSyncIntervalMinutes(): number | null {
+  const value = Number(process.env.GITHUB_SYNC_INTERVAL_MINUTES);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export function startSyncScheduler(log: (message: string) => void): void {
+  const intervalMinutes = getSyncIntervalMinutes();
+  if (!intervalMinutes) {
+    log("Scheduled GitHub sync is disabled (GITHUB_SYNC_INTERVAL_MINUTES is not set)");
+    return;
+  }
+
+  const githubConfig = checkGitHubConfig();
+  if (!githubConfig.isConfigured) {
+    log(`Scheduled GitHub sync is disabled: ${githubConfig.message}`);
+    return;
+  }
+
+  if (timer) {
+    clearInterval(timer);
+  }
+
+  timer = setInterval(() => {
+    void runScheduledSync(log);
+  }, intervalMinutes * MINUTE_MS);
+  log(`Scheduled GitHub sync every ${intervalMinutes} minutes`);
+}
+
+async function runScheduledSync(log: (message: string) => void): Promise<void> {
+  try {
+    const outcome = await runGitHubSync({
+      mode: 'direct',
+      triggeredBy: null,
+      trigger: 'scheduled',
+      onlyIfChanged: true
+    });
+    // 前回の同期や手動の同期がまだ終わっていなければ今回は見送る
+    if (!outcome) {
+      log("Skipping scheduled GitHub sync: another run is still in progress");
+      return;
+    }
+    const { run, error } = outcome;
+    log(`Scheduled GitHub sync #${run.id} finished: ${run.status}${error ? ` (${error})` : ""}`);
+  } catch (error) {
+    console.error("Scheduled sync error:", error);
+  }
+}
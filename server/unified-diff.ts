@@ -0,0 +1,113 @@
+// 行単位の unified diff を生成する（git diff と同じ形式、前後3行を文脈として含める）
+const CONTEXT_LINES = 3;
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string
+): string {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const hunks = buildHunks(ops);
+  if (hunks.length === 0) {
+    return "";
+  }
+  return [`--- ${oldLabel}`, `+++ ${newLabel}`, ...hunks].join("\n") + "\n";
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+// 共通の先頭・末尾を除いた範囲だけを LCS で比較する
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = oldLines.slice(0, start).map(line => ({ type: " ", line }));
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: " ", line: a[i++] });
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: "-", line: a[i++] });
+    } else {
+      ops.push({ type: "+", line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: "-", line: a[i++] });
+  while (j < b.length) ops.push({ type: "+", line: b[j++] });
+  oldLines.slice(oldEnd).forEach(line => ops.push({ type: " ", line }));
+
+  return ops;
+}
+
+function buildHunks(ops: DiffOp[]): string[] {
+  const hunks: string[] = [];
+  let index = 0;
+
+  while (index < ops.length) {
+    const firstChange = ops.findIndex((op, i) => i >= index && op.type !== " ");
+    if (firstChange === -1) break;
+
+    const hunkStart = Math.max(index, firstChange - CONTEXT_LINES);
+    let hunkEnd = firstChange;
+    // 変更同士の間隔が文脈2つ分以内なら同じハンクにまとめる
+    for (let i = firstChange; i < ops.length && i - hunkEnd <= CONTEXT_LINES * 2; i++) {
+      if (ops[i].type !== " ") hunkEnd = i;
+    }
+    const hunkStop = Math.min(ops.length, hunkEnd + CONTEXT_LINES + 1);
+    const hunkOps = ops.slice(hunkStart, hunkStop);
+
+    const oldStart = countLines(ops.slice(0, hunkStart), "+") + 1;
+    const newStart = countLines(ops.slice(0, hunkStart), "-") + 1;
+    const oldCount = countLines(hunkOps, "+");
+    const newCount = countLines(hunkOps, "-");
+
+    hunks.push(
+      `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`,
+      ...hunkOps.map(op => `${op.type}${op.line}`)
+    );
+    index = hunkStop;
+  }
+
+  return hunks;
+}
+
+// 指定した種類以外の行数（旧ファイルなら追加行を、新ファイルなら削除行を除く）
+function countLines(ops: DiffOp[], excluded: DiffOp["type"]): number {
+  return ops.filter(op => op.type !== excluded).length;
+}
+
+function formatRange(start: number, count: number): string {
+  if (count === 0) return `${start - 1},0`;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
@@ -7,6 +7,8 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 import { type Server } from "http";
 import viteConfig from "../vite.config";
+import { getPageMeta, injectPageMeta } from "./page-meta";
+import { getSiteOrigin } from "./site-url";
 
 export async function setupVite(app: Express, server: Server) {
   const vite = await createViteServer({
@@ -33,7 +35,10 @@ export async function setupVite(app: Express, server: Server) {
 
       // always reload the index.html file from disk incase it changes
       const template = await fs.promises.readFile(clientTemplate, "utf-8");
-      const page = await vite.transformIndexHtml(url, template);
+      const page = injectPageMeta(
+        await vite.transformIndexHtml(url, template),
+        await getPageMeta(url, getSiteOrigin(req))
+      );
       res.status(200).set({ "Content-Type": "text/html" }).end(page);
     } catch (e) {
       vite.ssrFixStacktrace(e as Error);
@@ -54,7 +59,10 @@ export function serveStatic(app: Express) {
   app.use(express.static(distPath));
 
   // fall through to index.html if the file doesn't exist
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  // ページごとの OGP メタタグを埋め込むため、index.html はテンプレートとして読み込んでおく
+  const template = fs.readFileSync(path.resolve(distPath, "index.html"), "utf-8");
+  app.use("*", async (req, res) => {
+    const page = injectPageMeta(template, await getPageMeta(req.originalUrl, getSiteOrigin(req)));
+    res.status(200).set({ "Content-Type": "text/html" }).end(page);
   });
 }